@@ -189,45 +189,6 @@ function preloadNextTarget() {
   renderNavTargets();
 }
 
-/**
- * Custom tile load function that captures HTTP error details and stores
- * them on the tile as `tile._prefetchError` for the PrefetchManager's
- * error reporting.  Uses `tile.setState(3)` to signal ERROR.
- */
-function customTileLoadFunction(imageTile, src) {
-  fetch(src, { mode: 'cors', credentials: 'omit' })
-    .then((response) => {
-      if (!response.ok) {
-        return response.text().then((body) => {
-          let detail = '';
-          try {
-            const json = JSON.parse(body);
-            detail = json.detail || json.message || json.error || '';
-          } catch (_) {
-            detail = body.slice(0, 120);
-          }
-          const reason = detail
-            ? `HTTP ${response.status}: ${detail}`
-            : `HTTP ${response.status} ${response.statusText}`;
-          imageTile._prefetchError = reason;
-          imageTile.setState(3); // TileState.ERROR
-        });
-      }
-      return response.blob();
-    })
-    .then((blob) => {
-      if (!blob) return;
-      const objectUrl = URL.createObjectURL(blob);
-      const img = /** @type {HTMLImageElement} */ (imageTile.getImage());
-      img.onload = () => URL.revokeObjectURL(objectUrl);
-      img.src = objectUrl;
-    })
-    .catch((err) => {
-      imageTile._prefetchError = `Network error: ${err.message}`;
-      imageTile.setState(3);
-    });
-}
-
 // -----------------------------------------------------------------------------
 // Registration
 // -----------------------------------------------------------------------------
@@ -342,7 +303,6 @@ function buildSharedSources() {
       maxZoom: 18,
       crossOrigin: 'anonymous',
       transition: 0,
-      tileLoadFunction: customTileLoadFunction,
       attributions: '(c) Sentinel-2 L2A via Planetary Computer',
     });
     sharedSources.push(source);
@@ -570,6 +530,9 @@ function setupPrefetchManager() {
     idleDelay: 80,
     tickInterval: 200,
     enabled,
+    // Prefetch through fetch, so failed tiles report their HTTP status and
+    // abandoned prefetches cancel their request.
+    fetchLoader: { credentials: 'omit' },
   });
 
   // Register all layers - manager derives active vs background automatically
@@ -651,7 +614,11 @@ function updateStatsUI(stats) {
       targetDetail.textContent = stats.nextTargets
         .map((t, i) => {
           const c = t.center;
-          return `#${i + 1}: zoom ${t.zoom} @ [${c[0].toFixed(0)}, ${c[1].toFixed(0)}]`;
+          const percent = Math.round(t.progress.fraction * 100);
+          const where = c
+            ? `zoom ${t.zoom} @ [${c[0].toFixed(0)}, ${c[1].toFixed(0)}]`
+            : 'extent';
+          return `#${i + 1}: ${where} (${percent}%)`;
         })
         .join(' | ');
     } else {
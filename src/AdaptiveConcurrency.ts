@@ -0,0 +1,128 @@
+/**
+ * @module ol/prefetch/AdaptiveConcurrency
+ */
+import { PrefetchCategory } from './PrefetchConstants';
+import type { CustomCategoryKey, PrefetchCategoryKey } from './PrefetchConstants';
+import type { PrefetchAdaptiveConcurrencyOptions } from './PrefetchTypes';
+
+/** Subset of the Network Information API used here. */
+interface NetworkInformationLike {
+  saveData?: boolean;
+  effectiveType?: string;
+  addEventListener?: (type: 'change', listener: () => void) => void;
+  removeEventListener?: (type: 'change', listener: () => void) => void;
+}
+
+function getConnection(): NetworkInformationLike | null {
+  if (typeof navigator === 'undefined') {
+    return null;
+  }
+  return (
+    (navigator as unknown as { connection?: NetworkInformationLike }).connection ?? null
+  );
+}
+
+/**
+ * Tunes the number of concurrent prefetches from observed tile latencies and
+ * errors (AIMD: additive increase, multiplicative decrease), and detects
+ * constrained connections via `navigator.connection` where available.
+ */
+class AdaptiveConcurrency {
+  private min_: number;
+  private max_: number;
+  private limit_: number;
+  private targetLatency_: number;
+  private decreaseFactor_: number;
+  private slowEffectiveTypes_: Set<string>;
+  private constrainedCategories_: Set<PrefetchCategoryKey | CustomCategoryKey>;
+  private samplesSinceDecrease_ = 0;
+  private connection_: NetworkInformationLike | null;
+  private onConnectionChange_: () => void;
+
+  /**
+   * @param options Adaptive concurrency settings.
+   * @param defaultMax Upper bound used when `options.max` is not set.
+   * @param onConnectionChange Called when the network conditions change.
+   */
+  constructor(
+    options: PrefetchAdaptiveConcurrencyOptions,
+    defaultMax: number,
+    onConnectionChange: () => void,
+  ) {
+    this.max_ = Math.max(1, options.max ?? defaultMax);
+    this.min_ = Math.min(this.max_, Math.max(1, options.min ?? 2));
+    this.limit_ = this.max_;
+    this.targetLatency_ = options.targetLatency ?? 1500;
+    this.decreaseFactor_ = options.decreaseFactor ?? 0.5;
+    this.slowEffectiveTypes_ = new Set(options.slowEffectiveTypes ?? ['slow-2g', '2g']);
+    this.constrainedCategories_ = new Set(
+      options.constrainedCategories ?? [PrefetchCategory.SPATIAL_ACTIVE],
+    );
+
+    this.onConnectionChange_ = onConnectionChange;
+    this.connection_ = getConnection();
+    this.connection_?.addEventListener?.('change', this.onConnectionChange_);
+  }
+
+  /**
+   * Current concurrency limit.
+   */
+  getLimit(): number {
+    return Math.floor(this.limit_);
+  }
+
+  /**
+   * Change the upper bound, e.g. from `setMaxConcurrent`.
+   */
+  setMax(max: number): void {
+    this.max_ = Math.max(1, max);
+    this.min_ = Math.min(this.min_, this.max_);
+    this.limit_ = Math.min(this.limit_, this.max_);
+  }
+
+  /**
+   * Feed one finished load.  Slow or failed loads halve the limit (at most
+   * once per window of `limit` loads so one burst does not collapse it);
+   * fast successful loads raise it by roughly one per window.
+   */
+  recordResult(latency: number, failed: boolean): void {
+    this.samplesSinceDecrease_++;
+    if (failed || latency > this.targetLatency_) {
+      if (this.samplesSinceDecrease_ >= this.getLimit()) {
+        this.limit_ = Math.max(this.min_, this.limit_ * this.decreaseFactor_);
+        this.samplesSinceDecrease_ = 0;
+      }
+      return;
+    }
+    this.limit_ = Math.min(this.max_, this.limit_ + 1 / this.getLimit());
+  }
+
+  /**
+   * True when the browser reports data saver or a slow effective connection.
+   */
+  isConstrained(): boolean {
+    const connection = this.connection_;
+    if (!connection) {
+      return false;
+    }
+    return (
+      connection.saveData === true ||
+      (connection.effectiveType !== undefined &&
+        this.slowEffectiveTypes_.has(connection.effectiveType))
+    );
+  }
+
+  /**
+   * True if the category may be dispatched under the current network conditions.
+   */
+  allowsCategory(category: PrefetchCategoryKey | CustomCategoryKey): boolean {
+    return !this.isConstrained() || this.constrainedCategories_.has(category);
+  }
+
+  dispose(): void {
+    this.connection_?.removeEventListener?.('change', this.onConnectionChange_);
+    this.connection_ = null;
+  }
+}
+
+export default AdaptiveConcurrency;
@@ -0,0 +1,237 @@
+/**
+ * @module ol/prefetch/CacheGuard
+ */
+import { getUid } from 'ol/util.js';
+import type { FrameState } from 'ol/Map.js';
+import type TileSource from 'ol/source/Tile.js';
+import type Projection from 'ol/proj/Projection.js';
+import type { TileCoord } from 'ol/tilecoord.js';
+import type {
+  PrefetchCacheGuardOptions,
+  PrefetchCacheOverflow,
+  PrefetchTarget,
+  PrefetchTask,
+  PrefetchTileLayer,
+} from './PrefetchTypes';
+
+interface PinnedTile {
+  source: TileSource;
+  tileCoord: TileCoord;
+}
+
+interface SourcePlan {
+  source: TileSource;
+  caching: CachingSource;
+  layers: Set<PrefetchTileLayer>;
+  tasks: number;
+  pinned: number;
+}
+
+/** The tile cache methods of sources before ol 10. */
+interface CachingSource {
+  getTileCacheForProjection(projection: Projection): { highWaterMark: number };
+  updateCacheSize(tileCount: number, projection: Projection): void;
+  useTile(z: number, x: number, y: number, projection: Projection): void;
+}
+
+/**
+ * The source, if it keeps a tile cache of its own.  Sources of ol 10 and
+ * later do not, and are left alone by the guard.
+ */
+function getCachingSource(source: TileSource): CachingSource | null {
+  const caching = source as unknown as Partial<CachingSource>;
+  return typeof caching.getTileCacheForProjection === 'function' &&
+    typeof caching.updateCacheSize === 'function' &&
+    typeof caching.useTile === 'function'
+    ? (caching as CachingSource)
+    : null;
+}
+
+/**
+ * Keeps prefetched tiles from being pruned out of their source's tile cache
+ * before they are seen.
+ *
+ * After every render the renderer expires each source's cache down to its
+ * size, least recently used tiles first.  The guard compares the tiles
+ * planned per source (queued, pinned and currently rendered) with that size:
+ * it can grow the cache, reports sources that still overflow, and optionally
+ * drops the tasks that would not fit.  Pinned next-nav tiles are marked as
+ * used after each frame, just before the cache is expired, so they go last.
+ * Sources without a tile cache of their own, as in ol 10 and later, are not
+ * guarded.
+ */
+class CacheGuard {
+  private clamp_: boolean;
+  private maxCacheSize_: number | null;
+  private pinNextNav_: boolean;
+  private onOverflow_: (overflow: PrefetchCacheOverflow) => void;
+  private pins_: Map<PrefetchTarget, PinnedTile[]> = new Map();
+  /** Tiles each source rendered in the last frame, keyed by source uid. */
+  private usedCounts_: Map<string, number> = new Map();
+  /** Uids of sources that overflowed at the last check. */
+  private overflowing_: Set<string> = new Set();
+
+  /**
+   * @param options Guard options.
+   * @param onOverflow Called when a source starts overflowing its cache.
+   */
+  constructor(
+    options: PrefetchCacheGuardOptions,
+    onOverflow: (overflow: PrefetchCacheOverflow) => void,
+  ) {
+    this.clamp_ = options.overflow === 'clamp';
+    this.maxCacheSize_ = options.maxCacheSize ?? null;
+    this.pinNextNav_ = options.pinNextNav ?? false;
+    this.onOverflow_ = onOverflow;
+  }
+
+  /**
+   * Pin the tile of a finished next-nav task until its target is visited or
+   * cleared.  Does nothing unless `pinNextNav` is set.
+   */
+  pin(task: PrefetchTask): void {
+    const source = task.layer.getSource();
+    if (!this.pinNextNav_ || !task.target || !source || !getCachingSource(source)) {
+      return;
+    }
+    let pins = this.pins_.get(task.target);
+    if (!pins) {
+      pins = [];
+      this.pins_.set(task.target, pins);
+    }
+    pins.push({ source, tileCoord: task.tileCoord });
+  }
+
+  unpin(target: PrefetchTarget): void {
+    this.pins_.delete(target);
+  }
+
+  /**
+   * Release the pins of targets that are no longer in the list.
+   */
+  retainTargets(targets: PrefetchTarget[]): void {
+    for (const target of this.pins_.keys()) {
+      if (!targets.includes(target)) {
+        this.pins_.delete(target);
+      }
+    }
+  }
+
+  getPinnedTargets(): PrefetchTarget[] {
+    return Array.from(this.pins_.keys());
+  }
+
+  /**
+   * Call on `postrender`, before the renderer expires the source caches.
+   */
+  handleFrame(frameState: FrameState): void {
+    this.usedCounts_.clear();
+    for (const key in frameState.usedTiles) {
+      this.usedCounts_.set(key, Object.keys(frameState.usedTiles[key]).length);
+    }
+    const projection = frameState.viewState.projection;
+    for (const pins of this.pins_.values()) {
+      for (const { source, tileCoord } of pins) {
+        getCachingSource(source)?.useTile(
+          tileCoord[0],
+          tileCoord[1],
+          tileCoord[2],
+          projection,
+        );
+      }
+    }
+  }
+
+  /**
+   * Check the queue against the cache size of each source.  Returns the
+   * queue, without the tasks that do not fit when clamping.  The queue must
+   * be sorted, so the lowest priority tasks are the ones dropped.
+   */
+  check(queue: PrefetchTask[], projection: Projection): PrefetchTask[] {
+    /** Plans by source uid; null for sources without a tile cache. */
+    const plans = new Map<string, SourcePlan | null>();
+    const getPlan = (source: TileSource) => {
+      const key = getUid(source);
+      let plan = plans.get(key);
+      if (plan === undefined) {
+        const caching = getCachingSource(source);
+        plan = caching && { source, caching, layers: new Set(), tasks: 0, pinned: 0 };
+        plans.set(key, plan);
+      }
+      return plan;
+    };
+    for (const task of queue) {
+      const source = task.layer.getSource();
+      const plan = source && getPlan(source);
+      if (plan) {
+        plan.layers.add(task.layer);
+        plan.tasks++;
+      }
+    }
+    for (const pins of this.pins_.values()) {
+      for (const { source } of pins) {
+        const plan = getPlan(source);
+        if (plan) {
+          plan.pinned++;
+        }
+      }
+    }
+
+    const overflowing = new Set<string>();
+    const allowed = new Map<string, number>();
+    for (const [key, plan] of plans) {
+      if (!plan) {
+        continue;
+      }
+      const reserved = (this.usedCounts_.get(key) ?? 0) + plan.pinned;
+      const planned = reserved + plan.tasks;
+      let capacity = plan.caching.getTileCacheForProjection(projection).highWaterMark;
+      if (capacity === 0 || planned <= capacity) {
+        continue;
+      }
+      if (this.maxCacheSize_ !== null && capacity < this.maxCacheSize_) {
+        plan.caching.updateCacheSize(Math.min(planned, this.maxCacheSize_), projection);
+        capacity = plan.caching.getTileCacheForProjection(projection).highWaterMark;
+        if (planned <= capacity) {
+          continue;
+        }
+      }
+
+      overflowing.add(key);
+      if (!this.overflowing_.has(key)) {
+        this.onOverflow_({
+          source: plan.source,
+          layers: Array.from(plan.layers),
+          planned,
+          capacity,
+        });
+      }
+      if (this.clamp_) {
+        allowed.set(key, Math.max(0, capacity - reserved));
+      }
+    }
+    this.overflowing_ = overflowing;
+
+    if (allowed.size === 0) {
+      return queue;
+    }
+    return queue.filter((task) => {
+      const source = task.layer.getSource();
+      const key = source ? getUid(source) : '';
+      const left = allowed.get(key);
+      if (left === undefined) {
+        return true;
+      }
+      allowed.set(key, left - 1);
+      return left > 0;
+    });
+  }
+
+  dispose(): void {
+    this.pins_.clear();
+    this.usedCounts_.clear();
+    this.overflowing_.clear();
+  }
+}
+
+export default CacheGuard;
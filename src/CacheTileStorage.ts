@@ -0,0 +1,49 @@
+/**
+ * @module ol/prefetch/CacheTileStorage
+ */
+import type { PrefetchTileStorage } from './PrefetchTypes';
+
+/**
+ * Tile storage backed by the Cache API.  Tiles are stored as responses keyed
+ * by their URL, so a service worker can serve them directly as well.
+ */
+class CacheTileStorage implements PrefetchTileStorage {
+  private cacheName_: string;
+  private cache_: Promise<Cache> | null = null;
+
+  constructor(cacheName = 'ol-prefetch-tiles') {
+    this.cacheName_ = cacheName;
+  }
+
+  async get(key: string): Promise<Blob | null> {
+    const response = await (await this.open_()).match(key);
+    return response ? response.blob() : null;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await (await this.open_()).match(key)) !== undefined;
+  }
+
+  async put(key: string, data: Blob): Promise<void> {
+    const headers = data.type ? { 'Content-Type': data.type } : undefined;
+    await (await this.open_()).put(key, new Response(data, { headers }));
+  }
+
+  async delete(key: string): Promise<void> {
+    await (await this.open_()).delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.cache_ = null;
+    await caches.delete(this.cacheName_);
+  }
+
+  private open_(): Promise<Cache> {
+    if (!this.cache_) {
+      this.cache_ = caches.open(this.cacheName_);
+    }
+    return this.cache_;
+  }
+}
+
+export default CacheTileStorage;
@@ -0,0 +1,75 @@
+/**
+ * @module ol/prefetch/CategoryRegistry
+ */
+import { getCategoryName, isBuiltInCategory } from './PrefetchConstants';
+import type { CustomCategoryKey, PrefetchCategoryKey } from './PrefetchConstants';
+import type {
+  PrefetchCategoryDefinition,
+  PrefetchCategoryPriorities,
+} from './PrefetchTypes';
+
+/**
+ * The custom categories of one manager, in registration order.  Built-in
+ * categories are always known and cannot be redefined.
+ */
+class CategoryRegistry {
+  private categories_: Map<CustomCategoryKey, Required<PrefetchCategoryDefinition>> =
+    new Map();
+
+  /**
+   * Add a category, or update it if the key is registered already.
+   */
+  register(key: CustomCategoryKey, definition: PrefetchCategoryDefinition): void {
+    if (isBuiltInCategory(key)) {
+      throw new Error(`Cannot redefine the built-in category ${key}`);
+    }
+    this.categories_.set(key, {
+      label: definition.label,
+      priority: definition.priority,
+      pausesDuringInteraction: definition.pausesDuringInteraction ?? true,
+    });
+  }
+
+  unregister(key: CustomCategoryKey): void {
+    this.categories_.delete(key);
+  }
+
+  /**
+   * True for built-in categories and registered custom ones.
+   */
+  has(category: PrefetchCategoryKey | CustomCategoryKey): boolean {
+    return isBuiltInCategory(category) || this.categories_.has(category);
+  }
+
+  /**
+   * Keys of the registered custom categories.
+   */
+  getKeys(): CustomCategoryKey[] {
+    return Array.from(this.categories_.keys());
+  }
+
+  /**
+   * True unless the category was registered with `pausesDuringInteraction`
+   * false.  Built-in categories follow the manager's own interaction rules.
+   */
+  pausesDuringInteraction(category: PrefetchCategoryKey | CustomCategoryKey): boolean {
+    return this.categories_.get(category)?.pausesDuringInteraction ?? true;
+  }
+
+  /**
+   * Priority of a category: the one in `priorities` if set, else its
+   * registered one.
+   */
+  getPriority(
+    priorities: PrefetchCategoryPriorities,
+    category: PrefetchCategoryKey | CustomCategoryKey,
+  ): number {
+    return priorities[category] ?? this.categories_.get(category)?.priority ?? Infinity;
+  }
+
+  getName(category: PrefetchCategoryKey | CustomCategoryKey): string {
+    return this.categories_.get(category)?.label ?? getCategoryName(category);
+  }
+}
+
+export default CategoryRegistry;
@@ -0,0 +1,183 @@
+/**
+ * @module ol/prefetch/CircuitBreaker
+ */
+import { getUid } from 'ol/util.js';
+import { CircuitState } from './PrefetchConstants';
+import type { CircuitStateKey } from './PrefetchConstants';
+import type {
+  PrefetchCircuitBreakerOptions,
+  PrefetchCircuitStats,
+  PrefetchTileLayer,
+} from './PrefetchTypes';
+
+interface Circuit {
+  state: CircuitStateKey;
+  consecutiveFailures: number;
+  openUntil: number;
+  probeInFlight: boolean;
+}
+
+/**
+ * Stops dispatching prefetches to a tile source that keeps failing.
+ *
+ * Circuits are keyed by source host (or by layer).  After `failureThreshold`
+ * consecutive errors a circuit opens and its tasks stay queued for `cooldown`
+ * ms.  It then goes half-open and lets a single probe request through: a
+ * success closes it again, a failure re-opens it.
+ */
+class CircuitBreaker {
+  private failureThreshold_: number;
+  private cooldown_: number;
+  private scope_: 'host' | 'layer';
+  private onProbeReady_: () => void;
+  private circuits_: Map<string, Circuit> = new Map();
+  private keys_: WeakMap<PrefetchTileLayer, string> = new WeakMap();
+  private timer_: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: PrefetchCircuitBreakerOptions, onProbeReady: () => void) {
+    this.failureThreshold_ = Math.max(1, options.failureThreshold ?? 5);
+    this.cooldown_ = options.cooldown ?? 30_000;
+    this.scope_ = options.scope ?? 'host';
+    this.onProbeReady_ = onProbeReady;
+  }
+
+  /**
+   * Circuit key for a layer: its source host, or its uid when scoped per layer
+   * or when the source has no URLs.
+   */
+  keyFor(layer: PrefetchTileLayer): string {
+    let key = this.keys_.get(layer);
+    if (key !== undefined) {
+      return key;
+    }
+    key = `layer:${getUid(layer)}`;
+    if (this.scope_ === 'host') {
+      const src = layer.getSource() as unknown as { getUrls?: () => string[] | null };
+      const urls = src && typeof src.getUrls === 'function' ? src.getUrls() : null;
+      if (urls && urls.length > 0) {
+        try {
+          key = new URL(urls[0]).host;
+        } catch {
+          // Relative or templated URL that cannot be parsed - keep the layer key.
+        }
+      }
+    }
+    this.keys_.set(layer, key);
+    return key;
+  }
+
+  /**
+   * True if a request to this circuit may be dispatched now.
+   */
+  allowsRequest(key: string): boolean {
+    const circuit = this.circuits_.get(key);
+    if (!circuit) {
+      return true;
+    }
+    switch (circuit.state) {
+      case CircuitState.CLOSED:
+        return true;
+      case CircuitState.OPEN:
+        return Date.now() >= circuit.openUntil;
+      default:
+        return !circuit.probeInFlight;
+    }
+  }
+
+  /**
+   * Record that a request was dispatched.  An expired open circuit goes
+   * half-open and this request becomes its probe.
+   */
+  recordDispatch(key: string): void {
+    const circuit = this.circuits_.get(key);
+    if (!circuit || circuit.state === CircuitState.CLOSED) {
+      return;
+    }
+    circuit.state = CircuitState.HALF_OPEN;
+    circuit.probeInFlight = true;
+  }
+
+  recordSuccess(key: string): void {
+    this.circuits_.delete(key);
+  }
+
+  recordFailure(key: string): void {
+    const circuit = this.circuits_.get(key) ?? {
+      state: CircuitState.CLOSED,
+      consecutiveFailures: 0,
+      openUntil: 0,
+      probeInFlight: false,
+    };
+    circuit.consecutiveFailures++;
+    circuit.probeInFlight = false;
+    if (
+      circuit.state === CircuitState.HALF_OPEN ||
+      circuit.consecutiveFailures >= this.failureThreshold_
+    ) {
+      circuit.state = CircuitState.OPEN;
+      circuit.openUntil = Date.now() + this.cooldown_;
+    }
+    this.circuits_.set(key, circuit);
+    this.scheduleProbe_();
+  }
+
+  /**
+   * Record that a request was dropped without a result, freeing the probe slot.
+   */
+  recordAbandoned(key: string): void {
+    const circuit = this.circuits_.get(key);
+    if (circuit) {
+      circuit.probeInFlight = false;
+    }
+  }
+
+  getSnapshot(): Record<string, PrefetchCircuitStats> {
+    const snapshot: Record<string, PrefetchCircuitStats> = {};
+    for (const [key, circuit] of this.circuits_) {
+      snapshot[key] = {
+        state: circuit.state,
+        consecutiveFailures: circuit.consecutiveFailures,
+        openUntil: circuit.state === CircuitState.OPEN ? circuit.openUntil : null,
+      };
+    }
+    return snapshot;
+  }
+
+  private scheduleProbe_(): void {
+    if (this.timer_) {
+      clearTimeout(this.timer_);
+      this.timer_ = null;
+    }
+
+    const now = Date.now();
+    let earliest = Infinity;
+    for (const circuit of this.circuits_.values()) {
+      if (
+        circuit.state === CircuitState.OPEN &&
+        circuit.openUntil > now &&
+        circuit.openUntil < earliest
+      ) {
+        earliest = circuit.openUntil;
+      }
+    }
+    if (earliest === Infinity) {
+      return;
+    }
+
+    this.timer_ = setTimeout(() => {
+      this.timer_ = null;
+      this.onProbeReady_();
+      this.scheduleProbe_();
+    }, earliest - now);
+  }
+
+  dispose(): void {
+    if (this.timer_) {
+      clearTimeout(this.timer_);
+      this.timer_ = null;
+    }
+    this.circuits_.clear();
+  }
+}
+
+export default CircuitBreaker;
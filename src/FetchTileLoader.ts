@@ -0,0 +1,214 @@
+/**
+ * @module ol/prefetch/FetchTileLoader
+ */
+import TileState from 'ol/TileState.js';
+import type Tile from 'ol/Tile.js';
+import TileLoadWrapper from './TileLoadWrapper';
+import type {
+  PrefetchFetchLoaderOptions,
+  PrefetchFetchRequestOptions,
+  PrefetchTileLayer,
+  PrefetchTileLoad,
+} from './PrefetchTypes';
+
+/** The parts of `ol/ImageTile` the loader relies on. */
+interface ImageTileLike {
+  getImage(): { src: string };
+}
+
+/**
+ * Loads prefetched image tiles with `fetch`, so requests can carry headers,
+ * credentials and auth tokens the source's `tileLoadFunction` does not add.
+ *
+ * Attached sources get their `tileLoadFunction` wrapped: prefetch loads of
+ * image tiles are fetched by this loader, everything else is left to the
+ * wrapped function.  A 401 or 403 response refreshes the layer's token and
+ * retries once before the tile fails.  Failed tiles get the HTTP status as
+ * their error reason.
+ */
+class FetchTileLoader {
+  private options_: PrefetchFetchLoaderOptions;
+  private getLoad_: (tile: Tile) => PrefetchTileLoad | null;
+  private onFetched_: (url: string, data: Blob) => void;
+  private tokens_: WeakMap<PrefetchTileLayer, Promise<string | null>> = new WeakMap();
+  /** Why the last load of a tile failed, until it loads again. */
+  private errors_: WeakMap<Tile, string> = new WeakMap();
+  private wrapper_: TileLoadWrapper = new TileLoadWrapper((tile, src, next) => {
+    if (!this.load_(tile, src)) {
+      next(tile, src);
+    }
+  });
+
+  /**
+   * @param options Loader options.
+   * @param getLoad The prefetch load in progress for a tile, if any.
+   * @param onFetched Called with the data of every successful request.
+   */
+  constructor(
+    options: PrefetchFetchLoaderOptions,
+    getLoad: (tile: Tile) => PrefetchTileLoad | null,
+    onFetched: (url: string, data: Blob) => void = () => {},
+  ) {
+    this.options_ = options;
+    this.getLoad_ = getLoad;
+    this.onFetched_ = onFetched;
+  }
+
+  /**
+   * Why the tile's last load through this loader failed, e.g. its HTTP status.
+   */
+  getError(tile: Tile): string | undefined {
+    return this.errors_.get(tile);
+  }
+
+  /**
+   * Wrap the `tileLoadFunction` of the layer's source; see `TileLoadWrapper`
+   * for how this stacks with a persistent cache.
+   */
+  attach(layer: PrefetchTileLayer): void {
+    this.wrapper_.attach(layer);
+  }
+
+  /**
+   * Start fetching a prefetched image tile.  Returns false, without touching
+   * the tile, for other loads or if the layer opted out.
+   */
+  private load_(tile: Tile, src: string): boolean {
+    const prefetch = this.getLoad_(tile);
+    const imageTile = tile as unknown as Partial<ImageTileLike>;
+    if (!prefetch || typeof imageTile.getImage !== 'function') {
+      return false;
+    }
+    const request = this.getRequestOptions_(prefetch.layer);
+    if (!request) {
+      return false;
+    }
+    this.errors_.delete(tile);
+    this.loadImage_(
+      imageTile as ImageTileLike,
+      tile,
+      prefetch.layer,
+      src,
+      request,
+      prefetch.signal,
+    );
+    return true;
+  }
+
+  private async loadImage_(
+    imageTile: ImageTileLike,
+    tile: Tile,
+    layer: PrefetchTileLayer,
+    src: string,
+    request: PrefetchFetchRequestOptions,
+    signal: AbortSignal,
+  ): Promise<void> {
+    try {
+      const data = await this.fetch_(layer, src, request, signal);
+      const url = URL.createObjectURL(data);
+      const image = imageTile.getImage();
+      const revoke = () => {
+        const state = tile.getState();
+        if (state !== TileState.IDLE && state !== TileState.LOADING) {
+          tile.removeEventListener('change', revoke);
+          URL.revokeObjectURL(url);
+        }
+      };
+      tile.addEventListener('change', revoke);
+      image.src = url;
+      this.onFetched_(src, data);
+    } catch (error) {
+      if (signal.aborted) {
+        // Abandoned: the tile has been dropped from the source's cache.
+        return;
+      }
+      this.errors_.set(tile, error instanceof Error ? error.message : String(error));
+      tile.setState(TileState.ERROR);
+    }
+  }
+
+  private async fetch_(
+    layer: PrefetchTileLayer,
+    src: string,
+    request: PrefetchFetchRequestOptions,
+    signal: AbortSignal,
+  ): Promise<Blob> {
+    let token = this.options_.getToken ? this.getToken_(layer, null) : null;
+    let response = await this.request_(src, request, await token, signal);
+    if (token && (response.status === 401 || response.status === 403)) {
+      token = this.getToken_(layer, token);
+      response = await this.request_(src, request, await token, signal);
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+    }
+    return response.blob();
+  }
+
+  private request_(
+    src: string,
+    request: PrefetchFetchRequestOptions,
+    token: string | null,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    const headers = new Headers(request.headers);
+    let url = src;
+    if (token) {
+      if (this.options_.tokenPlacement === 'query') {
+        url += (url.includes('?') ? '&' : '?') + token.replace(/^\?/, '');
+      } else {
+        headers.set('Authorization', `Bearer ${token}`);
+      }
+    }
+    return fetch(url, { headers, credentials: request.credentials, signal });
+  }
+
+  /**
+   * The layer's cached token.  Passing the token a request was rejected with
+   * refreshes it, unless another request already did, so concurrent
+   * rejections share one refresh.
+   */
+  private getToken_(
+    layer: PrefetchTileLayer,
+    rejected: Promise<string | null> | null,
+  ): Promise<string | null> {
+    const { getToken } = this.options_;
+    if (!getToken) {
+      return Promise.resolve(null);
+    }
+    let token = this.tokens_.get(layer);
+    if (!token || token === rejected) {
+      const fresh = getToken(layer, rejected !== null);
+      fresh.catch(() => {
+        if (this.tokens_.get(layer) === fresh) {
+          this.tokens_.delete(layer);
+        }
+      });
+      this.tokens_.set(layer, fresh);
+      token = fresh;
+    }
+    return token;
+  }
+
+  private getRequestOptions_(
+    layer: PrefetchTileLayer,
+  ): PrefetchFetchRequestOptions | null {
+    const { headers, credentials, layerOptions } = this.options_;
+    const own = layerOptions ? layerOptions(layer) : {};
+    if (!own) {
+      return null;
+    }
+    const merged = new Headers(headers);
+    new Headers(own.headers).forEach((value, name) => merged.set(name, value));
+    return {
+      headers: merged,
+      credentials: own.credentials ?? credentials ?? 'same-origin',
+    };
+  }
+
+  dispose(): void {
+    this.wrapper_.dispose();
+  }
+}
+
+export default FetchTileLoader;
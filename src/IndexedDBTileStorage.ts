@@ -0,0 +1,118 @@
+/**
+ * @module ol/prefetch/IndexedDBTileStorage
+ */
+import type { PrefetchTileStorage } from './PrefetchTypes';
+
+/**
+ * Tile storage backed by an IndexedDB object store of blobs keyed by URL.
+ * Survives cache eviction better than the Cache API on some browsers.
+ */
+class IndexedDBTileStorage implements PrefetchTileStorage {
+  private dbName_: string;
+  private storeName_: string;
+  private db_: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName = 'ol-prefetch', storeName = 'tiles') {
+    this.dbName_ = dbName;
+    this.storeName_ = storeName;
+  }
+
+  async get(key: string): Promise<Blob | null> {
+    const result = await this.request_<Blob | undefined>('readonly', (store) =>
+      store.get(key),
+    );
+    return result ?? null;
+  }
+
+  async has(key: string): Promise<boolean> {
+    return (await this.request_('readonly', (store) => store.count(key))) > 0;
+  }
+
+  async put(key: string, data: Blob): Promise<void> {
+    await this.request_('readwrite', (store) => store.put(data, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request_('readwrite', (store) => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.request_('readwrite', (store) => store.clear());
+  }
+
+  /**
+   * Close the database connection.  It is reopened on the next access.
+   */
+  close(): void {
+    const db = this.db_;
+    this.db_ = null;
+    db?.then((d) => d.close()).catch(() => {});
+  }
+
+  private open_(): Promise<IDBDatabase> {
+    if (!this.db_) {
+      const opened = this.openDatabase_().then((db) => {
+        if (db.objectStoreNames.contains(this.storeName_)) {
+          return db;
+        }
+        // Stores can only be created in an upgrade, so add this one to a
+        // database another store already created.
+        const version = db.version + 1;
+        db.close();
+        return this.openDatabase_(version);
+      });
+      opened.then(
+        (db) => {
+          // Close when another store upgrades the database; the next access
+          // reopens it.
+          db.onversionchange = () => {
+            db.close();
+            if (this.db_ === opened) {
+              this.db_ = null;
+            }
+          };
+        },
+        () => {
+          if (this.db_ === opened) {
+            this.db_ = null;
+          }
+        },
+      );
+      this.db_ = opened;
+    }
+    return this.db_;
+  }
+
+  private openDatabase_(version?: number): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName_, version);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName_)) {
+          request.result.createObjectStore(this.storeName_);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Runs one request in its own transaction and resolves once the
+   * transaction has completed, so writes are durable when it resolves.
+   */
+  private async request_<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> {
+    const db = await this.open_();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName_, mode);
+      const request = run(transaction.objectStore(this.storeName_));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+export default IndexedDBTileStorage;
@@ -0,0 +1,237 @@
+/**
+ * @module ol/prefetch/OfflineDownload
+ */
+import Observable from 'ol/Observable.js';
+import { DownloadState, PrefetchEventType, REGION_TILE_CHUNK } from './PrefetchConstants';
+import type { DownloadStateKey } from './PrefetchConstants';
+import { PrefetchDownloadEvent } from './PrefetchEvent';
+import type { EventsKey } from 'ol/events.js';
+import type BaseEvent from 'ol/events/Event.js';
+import type {
+  CombinedOnSignature,
+  EventTypes as ObservableEventTypes,
+  OnSignature,
+} from 'ol/Observable.js';
+import type { PrefetchDownloadProgress, PrefetchTileStorage } from './PrefetchTypes';
+
+type DownloadEventTypes =
+  typeof PrefetchEventType.DOWNLOADPROGRESS | typeof PrefetchEventType.DOWNLOADEND;
+
+export type OfflineDownloadOnSignature<Return> = OnSignature<
+  ObservableEventTypes,
+  BaseEvent,
+  Return
+> &
+  OnSignature<DownloadEventTypes, PrefetchDownloadEvent, Return> &
+  CombinedOnSignature<ObservableEventTypes | DownloadEventTypes, Return>;
+
+/**
+ * Downloads a list of tile URLs into persistent storage, independent of the
+ * map's tile cache.  Tiles already in storage are skipped, so starting the
+ * same region again only fetches what is missing.  The list is enumerated
+ * lazily, a chunk at a time, while downloading starts.
+ *
+ * Pausing lets in-flight requests finish; cancelling aborts them.  Resuming,
+ * also after the download is done, retries the tiles that failed.
+ */
+class OfflineDownload extends Observable {
+  declare on: OfflineDownloadOnSignature<EventsKey>;
+  declare once: OfflineDownloadOnSignature<EventsKey>;
+  declare un: OfflineDownloadOnSignature<void>;
+
+  private source_: Iterator<string> | null;
+  private seen_: Set<string> | null = new Set();
+  private enumerateTimer_: ReturnType<typeof setTimeout> | undefined;
+  private urls_: string[] = [];
+  private retry_: string[] = [];
+  private failedUrls_: string[] = [];
+  private storage_: PrefetchTileStorage;
+  private concurrency_: number;
+  private fetchOptions_: RequestInit;
+  private state_: DownloadStateKey = DownloadState.PAUSED;
+  private next_ = 0;
+  private controllers_: Set<AbortController> = new Set();
+  private stored_ = 0;
+  private skipped_ = 0;
+  private bytes_ = 0;
+
+  /**
+   * @param urls Tile URLs to download; also the storage keys.  Duplicates are
+   * downloaded once.
+   * @param storage Where tiles are stored.
+   * @param concurrency Maximum concurrent requests.
+   * @param fetchOptions Passed to every `fetch`.
+   */
+  constructor(
+    urls: Iterable<string>,
+    storage: PrefetchTileStorage,
+    concurrency = 4,
+    fetchOptions: RequestInit = {},
+  ) {
+    super();
+    this.source_ = urls[Symbol.iterator]();
+    this.storage_ = storage;
+    this.concurrency_ = Math.max(1, concurrency);
+    this.fetchOptions_ = fetchOptions;
+  }
+
+  getProgress(): PrefetchDownloadProgress {
+    return {
+      state: this.state_,
+      total: this.urls_.length,
+      counting: this.source_ !== null,
+      stored: this.stored_,
+      skipped: this.skipped_,
+      failed: this.failedUrls_.length,
+      bytes: this.bytes_,
+    };
+  }
+
+  getState(): DownloadStateKey {
+    return this.state_;
+  }
+
+  /**
+   * Start or continue downloading, retrying the tiles that failed so far.
+   */
+  resume(): void {
+    if (
+      this.state_ !== DownloadState.PAUSED &&
+      !(this.state_ === DownloadState.DONE && this.failedUrls_.length > 0)
+    ) {
+      return;
+    }
+    this.retry_ = this.retry_.concat(this.failedUrls_);
+    this.failedUrls_ = [];
+    this.state_ = DownloadState.RUNNING;
+    if (this.source_ && this.enumerateTimer_ === undefined) {
+      this.enumerate_();
+    } else {
+      this.pump_();
+    }
+  }
+
+  /**
+   * Stop starting new requests.  In-flight requests still complete.
+   */
+  pause(): void {
+    if (this.state_ === DownloadState.RUNNING) {
+      this.state_ = DownloadState.PAUSED;
+    }
+  }
+
+  /**
+   * Abort the download.  Tiles stored so far are kept.
+   */
+  cancel(): void {
+    if (this.state_ === DownloadState.DONE || this.state_ === DownloadState.CANCELLED) {
+      return;
+    }
+    this.state_ = DownloadState.CANCELLED;
+    clearTimeout(this.enumerateTimer_);
+    this.enumerateTimer_ = undefined;
+    this.source_ = null;
+    this.seen_ = null;
+    for (const controller of this.controllers_) {
+      controller.abort();
+    }
+    this.controllers_.clear();
+    this.dispatchEvent(
+      new PrefetchDownloadEvent(PrefetchEventType.DOWNLOADEND, this.getProgress()),
+    );
+  }
+
+  /**
+   * Take the next chunk of URLs from the source, then continue on a timer
+   * until it is used up.
+   */
+  private enumerate_(): void {
+    this.enumerateTimer_ = undefined;
+    const source = this.source_;
+    const seen = this.seen_;
+    if (!source || !seen) {
+      return;
+    }
+    for (let i = 0; i < REGION_TILE_CHUNK; i++) {
+      const next = source.next();
+      if (next.done) {
+        this.source_ = null;
+        this.seen_ = null;
+        break;
+      }
+      if (!seen.has(next.value)) {
+        seen.add(next.value);
+        this.urls_.push(next.value);
+      }
+    }
+    if (this.source_) {
+      this.enumerateTimer_ = setTimeout(() => this.enumerate_(), 0);
+    }
+    this.pump_();
+  }
+
+  private pump_(): void {
+    while (
+      this.state_ === DownloadState.RUNNING &&
+      this.controllers_.size < this.concurrency_ &&
+      (this.retry_.length > 0 || this.next_ < this.urls_.length)
+    ) {
+      this.fetchTile_(this.retry_.pop() ?? this.urls_[this.next_++]);
+    }
+    if (
+      this.state_ === DownloadState.RUNNING &&
+      this.controllers_.size === 0 &&
+      this.retry_.length === 0 &&
+      this.next_ >= this.urls_.length &&
+      !this.source_
+    ) {
+      this.state_ = DownloadState.DONE;
+      this.dispatchEvent(
+        new PrefetchDownloadEvent(PrefetchEventType.DOWNLOADEND, this.getProgress()),
+      );
+    }
+  }
+
+  private async fetchTile_(url: string): Promise<void> {
+    const controller = new AbortController();
+    this.controllers_.add(controller);
+    try {
+      if (await this.storage_.has(url)) {
+        this.skipped_++;
+      } else {
+        const response = await fetch(url, {
+          ...this.fetchOptions_,
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data = await response.blob();
+        await this.storage_.put(url, data);
+        this.stored_++;
+        this.bytes_ += data.size;
+      }
+    } catch {
+      if (!controller.signal.aborted) {
+        this.failedUrls_.push(url);
+      }
+    } finally {
+      this.controllers_.delete(controller);
+    }
+    if (this.state_ === DownloadState.CANCELLED) {
+      return;
+    }
+
+    this.dispatchEvent(
+      new PrefetchDownloadEvent(PrefetchEventType.DOWNLOADPROGRESS, this.getProgress()),
+    );
+    this.pump_();
+  }
+
+  protected disposeInternal(): void {
+    this.cancel();
+    super.disposeInternal();
+  }
+}
+
+export default OfflineDownload;
@@ -0,0 +1,76 @@
+/**
+ * @module ol/prefetch/PanTracker
+ */
+import type { Coordinate } from 'ol/coordinate.js';
+
+interface PanSample {
+  x: number;
+  y: number;
+  time: number;
+}
+
+/** Samples older than this (ms) no longer contribute to the pan estimate. */
+const SAMPLE_WINDOW = 500;
+
+/** Below this speed (pixels per ms) the view is considered to be standing still. */
+const MIN_PIXEL_SPEED = 0.05;
+
+/**
+ * Follows view centre changes during interaction and estimates the current
+ * pan vector in map units per millisecond.
+ *
+ * The manager resets it when a gesture starts and when it ends, so only
+ * rebuilds during the gesture lean the buffer in the direction the user is
+ * heading.  A resolution change (zoom) discards all samples, since the centre
+ * shift is then not a pan.
+ */
+class PanTracker {
+  private samples_: PanSample[] = [];
+  private resolution_: number | undefined;
+  private velocity_: Coordinate | null = null;
+
+  /**
+   * Discard all samples and the current estimate.
+   */
+  reset(): void {
+    this.samples_ = [];
+    this.resolution_ = undefined;
+    this.velocity_ = null;
+  }
+
+  /**
+   * Record the view centre at the given time.
+   */
+  sample(center: Coordinate, resolution: number, time: number): void {
+    if (this.resolution_ !== resolution) {
+      this.reset();
+      this.resolution_ = resolution;
+    }
+
+    this.samples_.push({ x: center[0], y: center[1], time });
+    while (this.samples_.length > 2 && time - this.samples_[0].time > SAMPLE_WINDOW) {
+      this.samples_.shift();
+    }
+
+    const first = this.samples_[0];
+    const last = this.samples_[this.samples_.length - 1];
+    const dt = last.time - first.time;
+    if (dt <= 0) {
+      return;
+    }
+    const vx = (last.x - first.x) / dt;
+    const vy = (last.y - first.y) / dt;
+    const pixelSpeed = Math.sqrt(vx * vx + vy * vy) / resolution;
+    this.velocity_ = pixelSpeed >= MIN_PIXEL_SPEED ? [vx, vy] : null;
+  }
+
+  /**
+   * Current pan vector in map units per millisecond, or null when the view
+   * is not (or was not last) panning.
+   */
+  getVelocity(): Coordinate | null {
+    return this.velocity_;
+  }
+}
+
+export default PanTracker;
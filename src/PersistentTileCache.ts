@@ -0,0 +1,302 @@
+/**
+ * @module ol/prefetch/PersistentTileCache
+ */
+import TileState from 'ol/TileState.js';
+import type Tile from 'ol/Tile.js';
+import type { LoadFunction } from 'ol/Tile.js';
+import type Projection from 'ol/proj/Projection.js';
+import type { TileCoord } from 'ol/tilecoord.js';
+import TileLoadWrapper from './TileLoadWrapper';
+import type {
+  PrefetchPersistentCacheOptions,
+  PrefetchTileLayer,
+  PrefetchTileLoad,
+  PrefetchTileStorage,
+} from './PrefetchTypes';
+
+interface CacheEntry {
+  time: number;
+  bytes: number;
+}
+
+/** Storage key of the index; resolves to a same-origin URL for the Cache API. */
+const INDEX_KEY = '__ol-prefetch-index__';
+const DAY = 86_400_000;
+
+/**
+ * URL the layer's source would request for a tile, or null if it has no URL
+ * function.
+ */
+export function getTileUrl(
+  layer: PrefetchTileLayer,
+  tileCoord: TileCoord,
+  pixelRatio: number,
+  projection: Projection,
+): string | null {
+  const source = layer.getSource() as unknown as {
+    getTileUrlFunction?: () => (
+      coord: TileCoord,
+      pixelRatio: number,
+      projection: Projection,
+    ) => string | undefined;
+    getTileCoordForTileUrlFunction?: (
+      coord: TileCoord,
+      projection: Projection,
+    ) => TileCoord | null;
+  } | null;
+  if (!source || typeof source.getTileUrlFunction !== 'function') {
+    return null;
+  }
+  // Mirrors what the source does for wrapped world copies.
+  const urlTileCoord =
+    source.getTileCoordForTileUrlFunction?.(tileCoord, projection) ?? tileCoord;
+  return source.getTileUrlFunction()(urlTileCoord, pixelRatio, projection) ?? null;
+}
+
+/**
+ * Persists prefetched tiles across tile cache pruning and page reloads.
+ *
+ * Attached sources get their `tileLoadFunction` wrapped: a tile that is in
+ * storage and younger than the TTL is loaded from there, and prefetch loads
+ * are fetched, stored and then handed to the wrapped function as an object
+ * URL.  Loads the map makes itself are only served, never stored.
+ *
+ * An index of stored URLs is kept in memory (and in storage) so the planner
+ * can tell synchronously which tiles need no prefetch.  The cache is itself a
+ * tile storage, so it can also be passed to `downloadRegion`.
+ */
+class PersistentTileCache implements PrefetchTileStorage {
+  private storage_: PrefetchTileStorage;
+  private ttl_: number;
+  private maxBytes_: number;
+  /** Stored URLs, oldest first. */
+  private index_: Map<string, CacheEntry> = new Map();
+  private totalBytes_ = 0;
+  private ready_: Promise<void>;
+  private saveTimeout_: ReturnType<typeof setTimeout> | null = null;
+  private wrapper_: TileLoadWrapper = new TileLoadWrapper((tile, src, next) => {
+    this.load_(tile, src, next);
+  });
+  private getLoad_: (tile: Tile) => PrefetchTileLoad | null;
+
+  /**
+   * @param options Cache options.
+   * @param getLoad The prefetch load in progress for a tile, if any.
+   */
+  constructor(
+    options: PrefetchPersistentCacheOptions,
+    getLoad: (tile: Tile) => PrefetchTileLoad | null = () => null,
+  ) {
+    this.getLoad_ = getLoad;
+    this.storage_ = options.storage;
+    this.ttl_ = options.ttl ?? 7 * DAY;
+    this.maxBytes_ = options.maxBytes ?? 100 * 1024 * 1024;
+    this.ready_ = this.loadIndex_();
+  }
+
+  /**
+   * Resolves once the index has been read from storage.  Until then no tile
+   * counts as stored.
+   */
+  whenReady(): Promise<void> {
+    return this.ready_;
+  }
+
+  /**
+   * True if the URL is stored and has not expired.
+   */
+  isStored(url: string): boolean {
+    const entry = this.index_.get(url);
+    return entry !== undefined && Date.now() - entry.time < this.ttl_;
+  }
+
+  isTileStored(
+    layer: PrefetchTileLayer,
+    tileCoord: TileCoord,
+    pixelRatio: number,
+    projection: Projection,
+  ): boolean {
+    if (this.index_.size === 0) {
+      return false;
+    }
+    const url = getTileUrl(layer, tileCoord, pixelRatio, projection);
+    return url !== null && this.isStored(url);
+  }
+
+  getSize(): { tiles: number; bytes: number } {
+    return { tiles: this.index_.size, bytes: this.totalBytes_ };
+  }
+
+  async get(key: string): Promise<Blob | null> {
+    await this.ready_;
+    if (!this.isStored(key)) {
+      return null;
+    }
+    const data = await this.storage_.get(key);
+    if (!data) {
+      // Evicted behind our back, e.g. by the browser.
+      this.forget_(key);
+      this.scheduleSave_();
+    }
+    return data;
+  }
+
+  async has(key: string): Promise<boolean> {
+    await this.ready_;
+    return this.isStored(key);
+  }
+
+  async put(key: string, data: Blob): Promise<void> {
+    await this.ready_;
+    await this.storage_.put(key, data);
+    // Re-insert so the index stays ordered by store time.
+    this.forget_(key);
+    this.index_.set(key, { time: Date.now(), bytes: data.size });
+    this.totalBytes_ += data.size;
+    this.evict_();
+    this.scheduleSave_();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready_;
+    this.forget_(key);
+    this.scheduleSave_();
+    await this.storage_.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.ready_;
+    this.index_.clear();
+    this.totalBytes_ = 0;
+    if (this.saveTimeout_ !== null) {
+      clearTimeout(this.saveTimeout_);
+      this.saveTimeout_ = null;
+    }
+    await this.storage_.clear();
+  }
+
+  /**
+   * Wrap the `tileLoadFunction` of the layer's source; see `TileLoadWrapper`
+   * for how this stacks with a fetch loader.
+   */
+  attach(layer: PrefetchTileLayer): void {
+    this.wrapper_.attach(layer);
+  }
+
+  private async load_(tile: Tile, src: string, next: LoadFunction): Promise<void> {
+    const prefetch = this.getLoad_(tile);
+    const signal = prefetch?.signal;
+    try {
+      const stored = await this.get(src);
+      if (signal?.aborted) {
+        return;
+      }
+      if (stored) {
+        this.loadData_(tile, stored, next);
+        return;
+      }
+      if (prefetch) {
+        const response = await fetch(src, { signal });
+        if (!response.ok) {
+          tile.setState(TileState.ERROR);
+          return;
+        }
+        const data = await response.blob();
+        this.put(src, data).catch(() => {});
+        this.loadData_(tile, data, next);
+        return;
+      }
+    } catch {
+      // Storage unavailable or the response is not readable (CORS): fall
+      // back to a normal load, unless the prefetch was abandoned.
+      if (signal?.aborted) {
+        return;
+      }
+    }
+    next(tile, src);
+  }
+
+  private loadData_(tile: Tile, data: Blob, next: LoadFunction): void {
+    const url = URL.createObjectURL(data);
+    const revoke = () => {
+      const state = tile.getState();
+      if (state !== TileState.IDLE && state !== TileState.LOADING) {
+        tile.removeEventListener('change', revoke);
+        URL.revokeObjectURL(url);
+      }
+    };
+    tile.addEventListener('change', revoke);
+    next(tile, url);
+  }
+
+  private forget_(key: string): void {
+    const entry = this.index_.get(key);
+    if (entry) {
+      this.totalBytes_ -= entry.bytes;
+      this.index_.delete(key);
+    }
+  }
+
+  /**
+   * Drop expired tiles and, beyond the size limit, the oldest ones.  The index
+   * is ordered by store time, so this stops at the first entry that may stay.
+   */
+  private evict_(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.index_) {
+      if (this.totalBytes_ <= this.maxBytes_ && now - entry.time < this.ttl_) {
+        break;
+      }
+      this.forget_(key);
+      this.storage_.delete(key).catch(() => {});
+    }
+  }
+
+  private scheduleSave_(): void {
+    if (this.saveTimeout_ === null) {
+      this.saveTimeout_ = setTimeout(() => {
+        this.saveTimeout_ = null;
+        this.saveIndex_();
+      }, 1000);
+    }
+  }
+
+  private saveIndex_(): void {
+    const entries = Array.from(this.index_, ([key, e]) => [key, e.time, e.bytes]);
+    this.storage_
+      .put(INDEX_KEY, new Blob([JSON.stringify(entries)], { type: 'application/json' }))
+      .catch(() => {});
+  }
+
+  private async loadIndex_(): Promise<void> {
+    try {
+      const data = await this.storage_.get(INDEX_KEY);
+      if (!data) {
+        return;
+      }
+      const entries = JSON.parse(await data.text()) as Array<[string, number, number]>;
+      for (const [key, time, bytes] of entries) {
+        this.index_.set(key, { time, bytes });
+        this.totalBytes_ += bytes;
+      }
+      this.evict_();
+    } catch {
+      // Unreadable index: start empty.  Orphaned tiles are overwritten as
+      // they are stored again.
+    }
+  }
+
+  /**
+   * Take the cache off the attached sources and write out the index.
+   */
+  dispose(): void {
+    this.wrapper_.dispose();
+    if (this.saveTimeout_ !== null) {
+      clearTimeout(this.saveTimeout_);
+      this.saveTimeout_ = null;
+      this.saveIndex_();
+    }
+  }
+}
+
+export default PersistentTileCache;
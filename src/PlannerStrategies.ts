@@ -0,0 +1,556 @@
+/**
+ * @module ol/prefetch/PlannerStrategies
+ */
+import { clamp } from 'ol/math.js';
+import { getForViewAndSize, buffer as bufferExtent } from 'ol/extent.js';
+import { PrefetchCategory } from './PrefetchConstants';
+import type { CustomCategoryKey, PrefetchCategoryKey } from './PrefetchConstants';
+import type View from 'ol/View.js';
+import type TileSource from 'ol/source/Tile.js';
+import type Projection from 'ol/proj/Projection.js';
+import type { Extent } from 'ol/extent.js';
+import type { Coordinate } from 'ol/coordinate.js';
+import type { Size } from 'ol/size.js';
+import type {
+  PrefetchPlanContext,
+  PrefetchPlannerStrategy,
+  PrefetchTarget,
+  PrefetchTaskDescriptor,
+  PrefetchTileLayer,
+} from './PrefetchTypes';
+
+/** Priority added per unit of background layer entry priority. */
+export const LAYER_PRIORITY_STEP = 0.001;
+
+export interface TargetViewState {
+  center: Coordinate;
+  resolution: number;
+  zoom: number;
+  rotation: number;
+  size: Size;
+}
+
+/**
+ * Time (ms) until a viewport moving at `velocity` first overlaps `tileExtent`.
+ * Returns Infinity if the tile never comes into view on the current heading.
+ */
+function timeToVisibility(
+  viewExtent: Extent,
+  tileExtent: Extent,
+  velocity: Coordinate,
+): number {
+  const axisTime = (
+    viewMin: number,
+    viewMax: number,
+    tileMin: number,
+    tileMax: number,
+    v: number,
+  ): number => {
+    if (tileMin > viewMax) {
+      return v > 0 ? (tileMin - viewMax) / v : Infinity;
+    }
+    if (tileMax < viewMin) {
+      return v < 0 ? (tileMax - viewMin) / v : Infinity;
+    }
+    return 0;
+  };
+  return Math.max(
+    axisTime(viewExtent[0], viewExtent[2], tileExtent[0], tileExtent[2], velocity[0]),
+    axisTime(viewExtent[1], viewExtent[3], tileExtent[1], tileExtent[3], velocity[1]),
+  );
+}
+
+/**
+ * The view the map will show on arrival at a target.  Extent targets are fit
+ * the way `View#fit` does it; otherwise `resolution` wins over `zoom`.
+ * Returns null if the target does not define a view.
+ */
+export function resolveTargetView(
+  view: View,
+  target: PrefetchTarget,
+  mapSize: Size,
+): TargetViewState | null {
+  const size = target.size ?? mapSize;
+  const rotation = target.rotation ?? 0;
+
+  if (target.extent) {
+    const [top, right, bottom, left] = target.padding ?? [0, 0, 0, 0];
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const [minX, minY, maxX, maxY] = target.extent;
+    let minRotX = Infinity;
+    let minRotY = Infinity;
+    let maxRotX = -Infinity;
+    let maxRotY = -Infinity;
+    for (const [x, y] of [
+      [minX, minY],
+      [minX, maxY],
+      [maxX, minY],
+      [maxX, maxY],
+    ]) {
+      const rotX = x * cos + y * sin;
+      const rotY = y * cos - x * sin;
+      minRotX = Math.min(minRotX, rotX);
+      minRotY = Math.min(minRotY, rotY);
+      maxRotX = Math.max(maxRotX, rotX);
+      maxRotY = Math.max(maxRotY, rotY);
+    }
+    const fitResolution = Math.max(
+      (maxRotX - minRotX) / (size[0] - right - left),
+      (maxRotY - minRotY) / (size[1] - top - bottom),
+    );
+    const resolution = view.getConstrainedResolution(
+      target.resolution ?? fitResolution,
+      1,
+    );
+    if (resolution === undefined || !Number.isFinite(resolution)) {
+      return null;
+    }
+    // Padding shifts the centre; then rotate back into map coordinates.
+    const centerRotX = (minRotX + maxRotX) / 2 + ((right - left) / 2) * resolution;
+    const centerRotY = (minRotY + maxRotY) / 2 + ((top - bottom) / 2) * resolution;
+    return {
+      center: [centerRotX * cos - centerRotY * sin, centerRotY * cos + centerRotX * sin],
+      resolution,
+      zoom: view.getZoomForResolution(resolution) ?? 0,
+      rotation,
+      size,
+    };
+  }
+
+  if (!target.center) {
+    return null;
+  }
+  let resolution = target.resolution;
+  let zoom = target.zoom;
+  if (resolution !== undefined) {
+    zoom = view.getZoomForResolution(resolution);
+  } else if (zoom !== undefined) {
+    resolution = view.getResolutionForZoom(zoom);
+  }
+  if (resolution === undefined || zoom === undefined) {
+    return null;
+  }
+  return { center: target.center, resolution, zoom, rotation, size };
+}
+
+/**
+ * Append descriptors for the tiles of `layer` covering `extent` at zoom `z`.
+ * With a `target`, they count towards its readiness.
+ */
+export function planExtentTiles(
+  descriptors: PrefetchTaskDescriptor[],
+  layer: PrefetchTileLayer,
+  extent: Extent,
+  z: number,
+  projection: Projection,
+  priority: number,
+  category: PrefetchCategoryKey | CustomCategoryKey,
+  target?: PrefetchTarget,
+): void {
+  const source = layer.getSource() as TileSource | null;
+  if (!source) {
+    return;
+  }
+
+  const tileGrid = source.getTileGridForProjection(projection);
+  const tileRange = tileGrid.getTileRangeForExtentAndZ(extent, z);
+
+  for (let x = tileRange.minX; x <= tileRange.maxX; x++) {
+    for (let y = tileRange.minY; y <= tileRange.maxY; y++) {
+      descriptors.push({
+        layer,
+        tileCoord: [z, x, y],
+        priority,
+        category,
+        target,
+        viewport: true,
+      });
+    }
+  }
+}
+
+/**
+ * Append descriptors for the ring of tiles around `viewExtent` when it is
+ * grown by `bufferFactor`.  With a `velocity`, the ring is shifted towards the
+ * pan direction and tiles are ordered by projected time-to-visibility.
+ */
+export function planBufferTiles(
+  descriptors: PrefetchTaskDescriptor[],
+  layer: PrefetchTileLayer,
+  viewExtent: Extent,
+  z: number,
+  projection: Projection,
+  priority: number,
+  category: PrefetchCategoryKey | CustomCategoryKey,
+  bufferFactor: number,
+  velocity: Coordinate | null = null,
+  panLookahead = 1000,
+  target?: PrefetchTarget,
+): void {
+  const source = layer.getSource() as TileSource | null;
+  if (!source) {
+    return;
+  }
+
+  const tileGrid = source.getTileGridForProjection(projection);
+
+  const extentWidth = viewExtent[2] - viewExtent[0];
+  const extentHeight = viewExtent[3] - viewExtent[1];
+  const bufferX = (extentWidth * (bufferFactor - 1)) / 2;
+  const bufferY = (extentHeight * (bufferFactor - 1)) / 2;
+  const bufferValue = Math.max(bufferX, bufferY);
+
+  let bufferedExtent = bufferExtent(viewExtent, bufferValue);
+  if (velocity) {
+    // Shift the buffer by where the view will be after the lookahead: the
+    // leading side grows, the trailing side shrinks (but never below zero).
+    const shiftX = clamp(velocity[0] * panLookahead, -extentWidth, extentWidth);
+    const shiftY = clamp(velocity[1] * panLookahead, -extentHeight, extentHeight);
+    bufferedExtent = [
+      viewExtent[0] - Math.max(0, bufferValue - shiftX),
+      viewExtent[1] - Math.max(0, bufferValue - shiftY),
+      viewExtent[2] + Math.max(0, bufferValue + shiftX),
+      viewExtent[3] + Math.max(0, bufferValue + shiftY),
+    ];
+  }
+  const bufferedTileRange = tileGrid.getTileRangeForExtentAndZ(bufferedExtent, z);
+  const viewportTileRange = tileGrid.getTileRangeForExtentAndZ(viewExtent, z);
+
+  for (let x = bufferedTileRange.minX; x <= bufferedTileRange.maxX; x++) {
+    for (let y = bufferedTileRange.minY; y <= bufferedTileRange.maxY; y++) {
+      if (viewportTileRange.containsXY(x, y)) {
+        continue;
+      }
+      let tilePriority = priority;
+      if (velocity) {
+        const tileExtent = tileGrid.getTileCoordExtent([z, x, y]);
+        const time = timeToVisibility(viewExtent, tileExtent, velocity);
+        // Bounded below the background sub-priority step so layer order holds.
+        tilePriority += Number.isFinite(time)
+          ? 0.0009 * (time / (time + panLookahead))
+          : 0.0009;
+      }
+      descriptors.push({
+        layer,
+        tileCoord: [z, x, y],
+        priority: tilePriority,
+        category,
+        target,
+      });
+    }
+  }
+}
+
+/**
+ * Buffer tiles around the viewport for the active layer (`spatial`).  The
+ * viewport itself is left to the map.
+ */
+export class SpatialBufferStrategy implements PrefetchPlannerStrategy {
+  readonly name = 'spatial';
+  readonly phase = 'viewport';
+  private bufferFactor_: number;
+  private panLookahead_: number;
+
+  constructor(bufferFactor: number, panLookahead = 1000) {
+    this.bufferFactor_ = bufferFactor;
+    this.panLookahead_ = panLookahead;
+  }
+
+  plan(context: PrefetchPlanContext): PrefetchTaskDescriptor[] {
+    const descriptors: PrefetchTaskDescriptor[] = [];
+    if (context.activeLayer) {
+      planBufferTiles(
+        descriptors,
+        context.activeLayer,
+        context.viewExtent,
+        Math.round(context.zoom),
+        context.projection,
+        context.categoryPriorities[PrefetchCategory.SPATIAL_ACTIVE],
+        PrefetchCategory.SPATIAL_ACTIVE,
+        this.bufferFactor_,
+        context.panVelocity,
+        this.panLookahead_,
+      );
+    }
+    return descriptors;
+  }
+}
+
+/**
+ * Viewport tiles (`bgViewport`) and, with a buffer factor above 1, buffer
+ * tiles (`bgBuffer`) for every background layer other than the active one.
+ * Layers are ordered by their entry priority within each category.
+ */
+export class BackgroundLayersStrategy implements PrefetchPlannerStrategy {
+  readonly name = 'background';
+  readonly phase = 'viewport';
+  private bufferFactor_: number;
+  private panLookahead_: number;
+
+  constructor(bufferFactor: number, panLookahead = 1000) {
+    this.bufferFactor_ = bufferFactor;
+    this.panLookahead_ = panLookahead;
+  }
+
+  plan(context: PrefetchPlanContext): PrefetchTaskDescriptor[] {
+    const descriptors: PrefetchTaskDescriptor[] = [];
+    const { activeLayer, categoryPriorities, projection, viewExtent } = context;
+    const z = Math.round(context.zoom);
+    const layers = context.backgroundLayers.filter((e) => e.layer !== activeLayer);
+
+    for (const entry of layers) {
+      planExtentTiles(
+        descriptors,
+        entry.layer,
+        viewExtent,
+        z,
+        projection,
+        categoryPriorities[PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT] +
+          entry.priority * LAYER_PRIORITY_STEP,
+        PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT,
+      );
+    }
+
+    if (this.bufferFactor_ <= 1) {
+      return descriptors;
+    }
+    for (const entry of layers) {
+      planBufferTiles(
+        descriptors,
+        entry.layer,
+        viewExtent,
+        z,
+        projection,
+        categoryPriorities[PrefetchCategory.BACKGROUND_LAYERS_BUFFER] +
+          entry.priority * LAYER_PRIORITY_STEP,
+        PrefetchCategory.BACKGROUND_LAYERS_BUFFER,
+        this.bufferFactor_,
+        context.panVelocity,
+        this.panLookahead_,
+      );
+    }
+    return descriptors;
+  }
+}
+
+export interface ZoomPyramidStrategyOptions {
+  /** Number of coarser (parent) zoom levels. */
+  levelsAbove?: number;
+  /** Number of finer (child) zoom levels, around the view centre. */
+  levelsBelow?: number;
+  /** Also plan background layers (as `bgBuffer` tasks). */
+  forBackground?: boolean;
+  /**
+   * Priority offset added per parent level away from the current zoom.  Raised
+   * where needed to outweigh the background layer sub-priorities.
+   */
+  abovePriorityOffset?: number;
+  /** Priority offset added per child level away from the current zoom, likewise. */
+  belowPriorityOffset?: number;
+}
+
+/**
+ * The tiles the map will render after zooming out (parents) or in (children,
+ * around the view centre) by up to the configured number of levels.  Active
+ * layer tiles count as spatial, background layer tiles as background buffer.
+ */
+export class ZoomPyramidStrategy implements PrefetchPlannerStrategy {
+  readonly name = 'zoomPyramid';
+  readonly phase = 'viewport';
+  private levelsAbove_: number;
+  private levelsBelow_: number;
+  private forBackground_: boolean;
+  private abovePriorityOffset_: number;
+  private belowPriorityOffset_: number;
+
+  constructor(options: ZoomPyramidStrategyOptions = {}) {
+    this.levelsAbove_ = Math.max(0, Math.floor(options.levelsAbove ?? 0));
+    this.levelsBelow_ = Math.max(0, Math.floor(options.levelsBelow ?? 0));
+    this.forBackground_ = options.forBackground ?? false;
+    this.abovePriorityOffset_ = options.abovePriorityOffset ?? 0.01;
+    this.belowPriorityOffset_ = options.belowPriorityOffset ?? 0.02;
+  }
+
+  plan(context: PrefetchPlanContext): PrefetchTaskDescriptor[] {
+    const descriptors: PrefetchTaskDescriptor[] = [];
+    if (this.levelsAbove_ === 0 && this.levelsBelow_ === 0) {
+      return descriptors;
+    }
+    const { activeLayer, categoryPriorities } = context;
+
+    if (activeLayer) {
+      this.planPyramid_(
+        descriptors,
+        context,
+        activeLayer,
+        categoryPriorities[PrefetchCategory.SPATIAL_ACTIVE],
+        PrefetchCategory.SPATIAL_ACTIVE,
+        LAYER_PRIORITY_STEP,
+      );
+    }
+
+    if (!this.forBackground_) {
+      return descriptors;
+    }
+    const layers = context.backgroundLayers.filter((e) => e.layer !== activeLayer);
+    // A level must outweigh the layer sub-priorities, so a layer's parent
+    // tiles never tie with another layer's tiles at the current zoom.
+    const layerSpan = layers.reduce(
+      (span, e) => Math.max(span, (e.priority + 1) * LAYER_PRIORITY_STEP),
+      LAYER_PRIORITY_STEP,
+    );
+    for (const entry of layers) {
+      this.planPyramid_(
+        descriptors,
+        context,
+        entry.layer,
+        categoryPriorities[PrefetchCategory.BACKGROUND_LAYERS_BUFFER] +
+          entry.priority * LAYER_PRIORITY_STEP,
+        PrefetchCategory.BACKGROUND_LAYERS_BUFFER,
+        layerSpan,
+      );
+    }
+    return descriptors;
+  }
+
+  private planPyramid_(
+    descriptors: PrefetchTaskDescriptor[],
+    context: PrefetchPlanContext,
+    layer: PrefetchTileLayer,
+    priority: number,
+    category: PrefetchCategoryKey | CustomCategoryKey,
+    minLevelOffset: number,
+  ): void {
+    const source = layer.getSource() as TileSource | null;
+    if (!source) {
+      return;
+    }
+    const { view, center, rotation, zoom, mapSize, projection } = context;
+    const aboveOffset = Math.max(this.abovePriorityOffset_, minLevelOffset);
+    const belowOffset = Math.max(this.belowPriorityOffset_, minLevelOffset);
+    const tileGrid = source.getTileGridForProjection(projection);
+    const minZoom = tileGrid.getMinZoom();
+    const maxZoom = tileGrid.getMaxZoom();
+
+    for (let d = 1; d <= this.levelsAbove_; d++) {
+      const z = Math.round(zoom) - d;
+      if (z < minZoom) break;
+      const extent = getForViewAndSize(
+        center,
+        view.getResolutionForZoom(zoom - d),
+        rotation,
+        mapSize,
+      );
+      planExtentTiles(
+        descriptors,
+        layer,
+        extent,
+        z,
+        projection,
+        priority + d * aboveOffset,
+        category,
+      );
+    }
+
+    for (let d = 1; d <= this.levelsBelow_; d++) {
+      const z = Math.round(zoom) + d;
+      if (z > maxZoom) break;
+      const extent = getForViewAndSize(
+        center,
+        view.getResolutionForZoom(zoom + d),
+        rotation,
+        mapSize,
+      );
+      planExtentTiles(
+        descriptors,
+        layer,
+        extent,
+        z,
+        projection,
+        priority + d * belowOffset,
+        category,
+      );
+    }
+  }
+}
+
+/**
+ * Viewport and buffer tiles of the next-nav layer (`nextNavPrimary`), and
+ * viewport tiles of the background layers (`nextNavBackground`), at each next
+ * target.  Later targets get a 0.1 priority offset per position, so target[0]
+ * tiles load before target[1] ones.
+ */
+export class NextNavStrategy implements PrefetchPlannerStrategy {
+  readonly name = 'nextNav';
+  readonly phase = 'nextNav';
+  private bufferFactor_: number;
+
+  constructor(bufferFactor: number) {
+    this.bufferFactor_ = bufferFactor;
+  }
+
+  plan(context: PrefetchPlanContext): PrefetchTaskDescriptor[] {
+    const descriptors: PrefetchTaskDescriptor[] = [];
+    const { nextNavLayer, categoryPriorities, projection } = context;
+
+    for (let i = 0; i < context.nextTargets.length; i++) {
+      const target = context.nextTargets[i];
+      const targetView = resolveTargetView(context.view, target, context.mapSize);
+      if (!targetView) continue;
+      const targetOffset = i * 0.1;
+      const z = Math.round(targetView.zoom);
+      const extent = getForViewAndSize(
+        targetView.center,
+        targetView.resolution,
+        targetView.rotation,
+        targetView.size,
+      );
+
+      if (nextNavLayer) {
+        const priority =
+          categoryPriorities[PrefetchCategory.NEXT_NAV_PRIMARY] + targetOffset;
+        planExtentTiles(
+          descriptors,
+          nextNavLayer,
+          extent,
+          z,
+          projection,
+          priority,
+          PrefetchCategory.NEXT_NAV_PRIMARY,
+          target,
+        );
+        planBufferTiles(
+          descriptors,
+          nextNavLayer,
+          extent,
+          z,
+          projection,
+          priority,
+          PrefetchCategory.NEXT_NAV_PRIMARY,
+          this.bufferFactor_,
+          null,
+          undefined,
+          target,
+        );
+      }
+
+      for (const entry of context.backgroundLayers) {
+        if (entry.layer === nextNavLayer) continue;
+        planExtentTiles(
+          descriptors,
+          entry.layer,
+          extent,
+          z,
+          projection,
+          categoryPriorities[PrefetchCategory.NEXT_NAV_BACKGROUND] +
+            targetOffset +
+            entry.priority * LAYER_PRIORITY_STEP,
+          PrefetchCategory.NEXT_NAV_BACKGROUND,
+          target,
+        );
+      }
+    }
+    return descriptors;
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * @module ol/prefetch/Playback
+ */
+import { CATEGORY_PRIORITY_SPAN, PrefetchCategory } from './PrefetchConstants';
+import { planExtentTiles } from './PlannerStrategies';
+import type {
+  PrefetchPlanContext,
+  PrefetchPlannerStrategy,
+  PrefetchPlaybackFrame,
+  PrefetchPlaybackOptions,
+  PrefetchTargetProgress,
+  PrefetchTaskDescriptor,
+  PrefetchTileLayer,
+} from './PrefetchTypes';
+
+export interface PlaybackCallbacks {
+  /** The layer to plan a frame's tiles in, or null to skip the frame. */
+  getFrameLayer: (frame: PrefetchPlaybackFrame) => PrefetchTileLayer | null;
+  /** Loading progress of the tiles recorded for a frame's job. */
+  getProgress: (job: object) => PrefetchTargetProgress;
+  /**
+   * Called when a frame is due before its tiles have loaded.  `progress` is
+   * null if the frame was not planned.
+   */
+  onStall: (
+    index: number,
+    deadline: number,
+    progress: PrefetchTargetProgress | null,
+  ) => void;
+}
+
+/** Time source of a playback; the system clock unless one is given. */
+export interface PlaybackClock {
+  now: () => number;
+  setTimeout: (callback: () => void, delay: number) => ReturnType<typeof setTimeout>;
+  clearTimeout: (timer: ReturnType<typeof setTimeout>) => void;
+}
+
+const systemClock: PlaybackClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (timer) => clearTimeout(timer),
+};
+
+/**
+ * Plans the tiles of an animation's frames ahead of their display deadlines,
+ * as the `playback` planner strategy.
+ *
+ * The player reports the frame it shows with `setFrame`; from then on frame
+ * `n` frames ahead is due `n / frameRate` seconds later.  Sooner deadlines
+ * load first.  While playing, every frame is checked when it is due, and a
+ * frame that is not ready is reported as a stall.  Checks then stop until the
+ * player shows the next frame, since it is expected to wait for buffering.
+ */
+class Playback implements PrefetchPlannerStrategy {
+  readonly name = 'playback';
+  readonly phase = 'viewport';
+  private frames_: PrefetchPlaybackFrame[];
+  private frameRate_: number;
+  private lookAhead_: number;
+  private loop_: boolean;
+  private callbacks_: PlaybackCallbacks;
+  private clock_: PlaybackClock;
+  private index_ = 0;
+  private playing_ = false;
+  /** When the current frame was shown. */
+  private shownAt_ = 0;
+  /** Job of each frame planned for the current view, by frame index. */
+  private jobs_: Map<number, object> = new Map();
+  private checkTimer_: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    options: PrefetchPlaybackOptions,
+    callbacks: PlaybackCallbacks,
+    clock: PlaybackClock = systemClock,
+  ) {
+    if (options.frames.length === 0) {
+      throw new Error('The playback has no frames');
+    }
+    const frameRate = options.frameRate ?? 2;
+    if (!(frameRate > 0)) {
+      throw new RangeError('The frame rate must be positive');
+    }
+    this.frames_ = options.frames.slice();
+    this.frameRate_ = frameRate;
+    this.lookAhead_ = Math.max(0, Math.floor(options.lookAhead ?? 5));
+    this.loop_ = options.loop ?? false;
+    this.callbacks_ = callbacks;
+    this.clock_ = clock;
+  }
+
+  getFrames(): PrefetchPlaybackFrame[] {
+    return this.frames_.slice();
+  }
+
+  getFrameRate(): number {
+    return this.frameRate_;
+  }
+
+  getIndex(): number {
+    return this.index_;
+  }
+
+  isPlaying(): boolean {
+    return this.playing_;
+  }
+
+  /**
+   * Show a frame.  While `playing`, the following frames are due one frame
+   * interval apart from now on; paused frames have no deadlines and no
+   * stalls.  Returns false, changing nothing, if there is no such frame.
+   */
+  setFrame(index: number, playing: boolean): boolean {
+    if (!Number.isInteger(index) || index < 0 || index >= this.frames_.length) {
+      return false;
+    }
+    this.index_ = index;
+    this.playing_ = playing;
+    this.shownAt_ = this.clock_.now();
+    this.clearCheck_();
+    if (playing) {
+      // The current frame is checked once the manager has planned it.
+      this.scheduleCheck_(index, 0);
+    }
+    return true;
+  }
+
+  /**
+   * Indices of the frames to prefetch: the current one and the look-ahead,
+   * in playing order.
+   */
+  getWindow(): number[] {
+    const window: number[] = [];
+    const count = this.frames_.length;
+    for (let offset = 0; offset <= Math.min(this.lookAhead_, count - 1); offset++) {
+      const index = this.index_ + offset;
+      if (index >= count && !this.loop_) {
+        break;
+      }
+      window.push(index % count);
+    }
+    return window;
+  }
+
+  /**
+   * When a frame is due, as a timestamp of the playback's clock.  Null while paused and
+   * for frames already played.
+   */
+  getDeadline(index: number): number | null {
+    const offset = this.getOffset_(index);
+    return this.playing_ && offset !== null
+      ? this.shownAt_ + (offset * 1000) / this.frameRate_
+      : null;
+  }
+
+  /**
+   * Loading progress of a frame's tiles in the current view.  Null for frames
+   * outside the window, which are not planned.
+   */
+  getFrameProgress(index: number): PrefetchTargetProgress | null {
+    const job = this.jobs_.get(index);
+    return job ? this.callbacks_.getProgress(job) : null;
+  }
+
+  /**
+   * True once every tile of the frame in the current view has loaded.  Failed
+   * tiles keep a frame from being ready, so a player may want to check
+   * `getFrameProgress` before waiting on it for long.
+   */
+  isFrameReady(index: number): boolean {
+    const progress = this.getFrameProgress(index);
+    return progress !== null && progress.loaded === progress.total;
+  }
+
+  /**
+   * The viewport tiles of each frame in the window, in the `playback`
+   * category.  Each frame interval until a frame is due adds an equal share
+   * of `CATEGORY_PRIORITY_SPAN` to the priority, so sooner deadlines load
+   * first without reaching the next category.
+   */
+  plan(context: PrefetchPlanContext): PrefetchTaskDescriptor[] {
+    const descriptors: PrefetchTaskDescriptor[] = [];
+    const z = Math.round(context.zoom);
+    const priority = context.categoryPriorities[PrefetchCategory.PLAYBACK];
+    const step = CATEGORY_PRIORITY_SPAN / (this.lookAhead_ + 1);
+    this.jobs_ = new Map();
+    this.getWindow().forEach((index, offset) => {
+      const layer = this.callbacks_.getFrameLayer(this.frames_[index]);
+      if (!layer) {
+        return;
+      }
+      const job = {};
+      this.jobs_.set(index, job);
+      const start = descriptors.length;
+      planExtentTiles(
+        descriptors,
+        layer,
+        context.viewExtent,
+        z,
+        context.projection,
+        priority + offset * step,
+        PrefetchCategory.PLAYBACK,
+      );
+      for (let i = start; i < descriptors.length; i++) {
+        descriptors[i].job = job;
+      }
+    });
+    return descriptors;
+  }
+
+  /**
+   * Frames from the current one to the given one in playing order, or null
+   * if it was already played.
+   */
+  private getOffset_(index: number): number | null {
+    const count = this.frames_.length;
+    if (index < 0 || index >= count) {
+      return null;
+    }
+    if (index >= this.index_) {
+      return index - this.index_;
+    }
+    return this.loop_ ? index - this.index_ + count : null;
+  }
+
+  private scheduleCheck_(index: number, delay: number): void {
+    this.checkTimer_ = this.clock_.setTimeout(() => {
+      this.checkTimer_ = null;
+      this.checkFrame_(index);
+    }, delay);
+  }
+
+  /**
+   * Report the frame as a stall if it is due and not ready, or else wait for
+   * the next one.
+   */
+  private checkFrame_(index: number): void {
+    const deadline = this.getDeadline(index);
+    if (deadline === null) {
+      return;
+    }
+    if (!this.isFrameReady(index)) {
+      this.callbacks_.onStall(index, deadline, this.getFrameProgress(index));
+      return;
+    }
+    const next = (index + 1) % this.frames_.length;
+    const nextDeadline = this.getDeadline(next);
+    if (nextDeadline !== null && next !== this.index_) {
+      this.scheduleCheck_(next, Math.max(0, nextDeadline - this.clock_.now()));
+    }
+  }
+
+  private clearCheck_(): void {
+    if (this.checkTimer_) {
+      this.clock_.clearTimeout(this.checkTimer_);
+      this.checkTimer_ = null;
+    }
+  }
+
+  dispose(): void {
+    this.clearCheck_();
+    this.jobs_.clear();
+  }
+}
+
+export default Playback;
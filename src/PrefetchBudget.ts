@@ -0,0 +1,237 @@
+/**
+ * @module ol/prefetch/PrefetchBudget
+ */
+import { PrefetchCategory } from './PrefetchConstants';
+import type { CustomCategoryKey, PrefetchCategoryKey } from './PrefetchConstants';
+import type Tile from 'ol/Tile.js';
+import type {
+  PrefetchBudgetOptions,
+  PrefetchBudgetStats,
+  PrefetchTarget,
+  PrefetchTask,
+} from './PrefetchTypes';
+
+interface BudgetUsage {
+  bytes: number;
+  tiles: number;
+}
+
+const MINUTE = 60_000;
+
+/**
+ * Best-effort size of a loaded tile in bytes: the raw data for data tiles, or
+ * the resource timing entry for image tiles.  Returns null when unknown.
+ */
+function measureTileBytes(tile: Tile): number | null {
+  const anyTile = tile as unknown as {
+    getData?: () => unknown;
+    getImage?: () => unknown;
+  };
+
+  if (typeof anyTile.getData === 'function') {
+    const data = anyTile.getData();
+    if (ArrayBuffer.isView(data)) {
+      return data.byteLength;
+    }
+  }
+
+  if (typeof anyTile.getImage === 'function' && typeof performance !== 'undefined') {
+    const image = anyTile.getImage() as { src?: string } | null;
+    const src = image?.src;
+    if (src && !src.startsWith('data:') && !src.startsWith('blob:')) {
+      const entries = performance.getEntriesByName(src) as PerformanceResourceTiming[];
+      const entry = entries[entries.length - 1];
+      // transferSize is 0 for cached or cross-origin responses without
+      // Timing-Allow-Origin; fall back to the estimate in that case.
+      const size = entry ? entry.transferSize || entry.encodedBodySize : 0;
+      if (size > 0) {
+        return size;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Caps how much data prefetching may use, per session, per minute and per
+ * next-navigation target.
+ *
+ * Usage is recorded when a tile finishes loading, so in-flight loads may
+ * overshoot a limit by up to the number of concurrent prefetches.  Once a
+ * limit is reached only the protected categories are dispatched.  When only
+ * the per-minute limits are used up, a timer at the end of the window fires
+ * `onRecovered` once usage has dropped below them again.
+ */
+class PrefetchBudget {
+  private options_: PrefetchBudgetOptions;
+  private estimatedTileBytes_: number;
+  private protectedCategories_: Set<PrefetchCategoryKey | CustomCategoryKey>;
+  private session_: BudgetUsage = { bytes: 0, tiles: 0 };
+  private minuteLog_: Array<{ time: number; bytes: number }> = [];
+  private minuteBytes_ = 0;
+  private targets_: WeakMap<PrefetchTarget, BudgetUsage> = new WeakMap();
+  private onExhausted_: (budget: PrefetchBudgetStats) => void;
+  private onRecovered_: () => void;
+  private recoveryTimer_: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param options Budget limits.
+   * @param onExhausted Called each time the session or per-minute budget
+   *   becomes exhausted.
+   * @param onRecovered Called when an exhausted per-minute budget is
+   *   available again.
+   */
+  constructor(
+    options: PrefetchBudgetOptions,
+    onExhausted: (budget: PrefetchBudgetStats) => void,
+    onRecovered: () => void = () => {},
+  ) {
+    this.options_ = options;
+    this.onExhausted_ = onExhausted;
+    this.onRecovered_ = onRecovered;
+    this.estimatedTileBytes_ = options.estimatedTileBytes ?? 30_000;
+    this.protectedCategories_ = new Set(
+      options.protectedCategories ?? [PrefetchCategory.SPATIAL_ACTIVE],
+    );
+  }
+
+  /**
+   * Record a finished load against the session, minute and target budgets.
+   */
+  recordUsage(task: PrefetchTask, tile: Tile): void {
+    const wasExhausted = this.isExhausted();
+    const bytes = measureTileBytes(tile) ?? this.estimatedTileBytes_;
+    this.session_.bytes += bytes;
+    this.session_.tiles++;
+    this.minuteLog_.push({ time: Date.now(), bytes });
+    this.minuteBytes_ += bytes;
+
+    if (task.target) {
+      const usage = this.targets_.get(task.target) ?? { bytes: 0, tiles: 0 };
+      usage.bytes += bytes;
+      usage.tiles++;
+      this.targets_.set(task.target, usage);
+    }
+
+    if (!wasExhausted && this.isExhausted()) {
+      this.onExhausted_(this.getSnapshot());
+      this.scheduleRecovery_();
+    }
+  }
+
+  /**
+   * True if the task may be dispatched under the current budget.
+   */
+  allows(task: PrefetchTask): boolean {
+    if (this.protectedCategories_.has(task.category)) {
+      return true;
+    }
+    if (this.isExhausted()) {
+      return false;
+    }
+    if (task.target) {
+      const usage = this.targets_.get(task.target);
+      const { maxBytesPerTarget, maxTilesPerTarget } = this.options_;
+      if (usage && maxBytesPerTarget !== undefined && usage.bytes >= maxBytesPerTarget) {
+        return false;
+      }
+      if (usage && maxTilesPerTarget !== undefined && usage.tiles >= maxTilesPerTarget) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * True while the session or per-minute budget is used up.
+   */
+  isExhausted(): boolean {
+    if (this.isSessionExhausted_()) return true;
+    const { maxBytesPerMinute, maxTilesPerMinute } = this.options_;
+    const minute = this.getMinuteUsage_();
+    if (maxBytesPerMinute !== undefined && minute.bytes >= maxBytesPerMinute) return true;
+    if (maxTilesPerMinute !== undefined && minute.tiles >= maxTilesPerMinute) return true;
+    return false;
+  }
+
+  /**
+   * Start a new session: forget all recorded usage.
+   */
+  reset(): void {
+    this.clearRecovery_();
+    this.session_ = { bytes: 0, tiles: 0 };
+    this.minuteLog_ = [];
+    this.minuteBytes_ = 0;
+    this.targets_ = new WeakMap();
+  }
+
+  getSnapshot(): PrefetchBudgetStats {
+    const { maxBytes, maxTiles, maxBytesPerMinute, maxTilesPerMinute } = this.options_;
+    const minute = this.getMinuteUsage_();
+    const remaining = (max: number | undefined, used: number) =>
+      max === undefined ? null : Math.max(0, max - used);
+    return {
+      usedBytes: this.session_.bytes,
+      usedTiles: this.session_.tiles,
+      remainingBytes: remaining(maxBytes, this.session_.bytes),
+      remainingTiles: remaining(maxTiles, this.session_.tiles),
+      remainingBytesThisMinute: remaining(maxBytesPerMinute, minute.bytes),
+      remainingTilesThisMinute: remaining(maxTilesPerMinute, minute.tiles),
+      exhausted: this.isExhausted(),
+    };
+  }
+
+  private isSessionExhausted_(): boolean {
+    const { maxBytes, maxTiles } = this.options_;
+    return (
+      (maxBytes !== undefined && this.session_.bytes >= maxBytes) ||
+      (maxTiles !== undefined && this.session_.tiles >= maxTiles)
+    );
+  }
+
+  /**
+   * Wait for the oldest usage in the minute window to expire, until the
+   * per-minute budget is available again.  A used-up session budget only
+   * recovers with `reset`.
+   */
+  private scheduleRecovery_(): void {
+    if (this.recoveryTimer_ || this.isSessionExhausted_() || !this.isExhausted()) {
+      return;
+    }
+    const expiry = this.minuteLog_[0].time + MINUTE;
+    this.recoveryTimer_ = setTimeout(
+      () => {
+        this.recoveryTimer_ = null;
+        if (this.isExhausted()) {
+          this.scheduleRecovery_();
+        } else {
+          this.onRecovered_();
+        }
+      },
+      Math.max(0, expiry - Date.now()),
+    );
+  }
+
+  private clearRecovery_(): void {
+    if (this.recoveryTimer_) {
+      clearTimeout(this.recoveryTimer_);
+      this.recoveryTimer_ = null;
+    }
+  }
+
+  private getMinuteUsage_(): BudgetUsage {
+    const cutoff = Date.now() - MINUTE;
+    while (this.minuteLog_.length > 0 && this.minuteLog_[0].time <= cutoff) {
+      this.minuteBytes_ -= this.minuteLog_[0].bytes;
+      this.minuteLog_.shift();
+    }
+    return { bytes: this.minuteBytes_, tiles: this.minuteLog_.length };
+  }
+
+  dispose(): void {
+    this.reset();
+  }
+}
+
+export default PrefetchBudget;
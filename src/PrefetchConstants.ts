@@ -1,7 +1,7 @@
 /**
  * @module ol/prefetch/PrefetchConstants
  */
-import type { PrefetchCategoryStats } from './PrefetchTypes';
+import type { PrefetchCategoryStats, PrefetchTask } from './PrefetchTypes';
 
 export const PrefetchCategory = {
   SPATIAL_ACTIVE: 'spatial',
@@ -10,20 +10,125 @@ export const PrefetchCategory = {
   /** Tiles at the next navigation target for the fixed primary layer (set via setNextNavLayer). */
   NEXT_NAV_PRIMARY: 'nextNavPrimary',
   NEXT_NAV_BACKGROUND: 'nextNavBackground',
+  /** Tiles along a known route corridor (set via setRoute). */
+  ROUTE: 'route',
+  /** Tiles inside an area of interest (set via prefetchArea). */
+  AREA: 'area',
+  /** Tiles of the time values around the current one (set via setTimeSeries). */
+  TIME_SERIES: 'timeSeries',
+  /** Tiles of the frames coming up in an animation (set via setPlayback). */
+  PLAYBACK: 'playback',
 } as const;
 
 export type PrefetchCategoryKey =
   (typeof PrefetchCategory)[keyof typeof PrefetchCategory];
 
+/**
+ * A category added with a manager's `registerCategory`.  Any string type
+ * checks; the manager's registry rejects unknown keys where they are used.
+ */
+export type CustomCategoryKey = string & {};
+
+export const PrefetchEventType = {
+  /** A prefetch load was dispatched. */
+  TILELOADSTART: 'tileloadstart',
+  /** A prefetch load finished (loaded, empty or failed). */
+  TILELOADEND: 'tileloadend',
+  /** A prefetch load failed. */
+  TILEERROR: 'tileerror',
+  /** The queue was rebuilt from the current view or next targets. */
+  QUEUEREBUILT: 'queuerebuilt',
+  /** Stats changed; carries a fresh snapshot. */
+  STATS: 'stats',
+  /** Nothing is queued or loading any more. */
+  IDLE: 'idle',
+  /** Prefetching paused for user interaction or because it was disabled. */
+  PAUSED: 'paused',
+  RESUMED: 'resumed',
+  /** All tiles for a next-navigation target have settled. */
+  TARGETREADY: 'targetready',
+  BUDGETEXHAUSTED: 'budgetexhausted',
+  /** The tiles planned for a source no longer fit its tile cache. */
+  CACHEOVERFLOW: 'cacheoverflow',
+  /** An offline download stored, skipped or failed a tile. */
+  DOWNLOADPROGRESS: 'downloadprogress',
+  /** An offline download finished or was cancelled. */
+  DOWNLOADEND: 'downloadend',
+  /** A playback frame was due before its tiles had loaded. */
+  PLAYBACKSTALL: 'playbackstall',
+} as const;
+
+export type PrefetchEventTypeKey =
+  (typeof PrefetchEventType)[keyof typeof PrefetchEventType];
+
+export const CircuitState = {
+  CLOSED: 'closed',
+  /** Requests are paused until the cool-down expires. */
+  OPEN: 'open',
+  /** A single probe request is allowed through to test the source. */
+  HALF_OPEN: 'half-open',
+} as const;
+
+export type CircuitStateKey = (typeof CircuitState)[keyof typeof CircuitState];
+
+export const DownloadState = {
+  RUNNING: 'running',
+  PAUSED: 'paused',
+  CANCELLED: 'cancelled',
+  DONE: 'done',
+} as const;
+
+export type DownloadStateKey = (typeof DownloadState)[keyof typeof DownloadState];
+
+/**
+ * Tiles a region estimate or offline download enumerates before yielding to
+ * the event loop, so large regions do not block the page.
+ */
+export const REGION_TILE_CHUNK = 1000;
+
 export const DEFAULT_CATEGORY_PRIORITIES: Record<PrefetchCategoryKey, number> = {
   [PrefetchCategory.SPATIAL_ACTIVE]: 1,
   [PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT]: 2,
   [PrefetchCategory.BACKGROUND_LAYERS_BUFFER]: 3,
   [PrefetchCategory.NEXT_NAV_PRIMARY]: 4,
   [PrefetchCategory.NEXT_NAV_BACKGROUND]: 5,
+  [PrefetchCategory.ROUTE]: 6,
+  [PrefetchCategory.AREA]: 7,
+  // Right after the current time's own buffer, so scrubbing stays smooth.
+  [PrefetchCategory.TIME_SERIES]: 1.5,
+  // Frames due soon are what is about to be on screen.
+  [PrefetchCategory.PLAYBACK]: 0.5,
 };
 
-export function getCategoryName(category: PrefetchCategoryKey | string): string {
+/**
+ * Priority span a strategy may spread one category's tasks over, above the
+ * category's priority, so they stay clear of the next category.
+ */
+export const CATEGORY_PRIORITY_SPAN = 0.1;
+
+/**
+ * Default task ordering: by priority, then outward from the focus point so
+ * each category fills from the middle of the view (or target) first.
+ */
+export function compareTasks(a: PrefetchTask, b: PrefetchTask): number {
+  return a.priority - b.priority || a.distance - b.distance;
+}
+
+const BUILT_IN_CATEGORIES: ReadonlySet<string> = new Set(Object.values(PrefetchCategory));
+
+export function isBuiltInCategory(
+  category: PrefetchCategoryKey | CustomCategoryKey,
+): category is PrefetchCategoryKey {
+  return BUILT_IN_CATEGORIES.has(category);
+}
+
+/**
+ * Display name of a built-in category.  Custom categories are named by the
+ * registry they were added to.
+ */
+export function getCategoryName(
+  category: PrefetchCategoryKey | CustomCategoryKey,
+): string {
   switch (category) {
     case PrefetchCategory.SPATIAL_ACTIVE:
       return 'Spatial (active)';
@@ -35,6 +140,14 @@ export function getCategoryName(category: PrefetchCategoryKey | string): string
       return 'Next nav (primary layer)';
     case PrefetchCategory.NEXT_NAV_BACKGROUND:
       return 'Next nav (BG)';
+    case PrefetchCategory.ROUTE:
+      return 'Route corridor';
+    case PrefetchCategory.AREA:
+      return 'Area of interest';
+    case PrefetchCategory.TIME_SERIES:
+      return 'Time series';
+    case PrefetchCategory.PLAYBACK:
+      return 'Playback';
     default:
       return `Category ${category}`;
   }
@@ -44,7 +157,7 @@ export function createInitialCategoryCounts(): Record<
   PrefetchCategoryKey,
   PrefetchCategoryStats
 > {
-  return {
+  const counts: Record<PrefetchCategoryKey, PrefetchCategoryStats> = {
     [PrefetchCategory.SPATIAL_ACTIVE]: { queued: 0, loading: 0, loaded: 0, errors: 0 },
     [PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT]: {
       queued: 0,
@@ -65,5 +178,10 @@ export function createInitialCategoryCounts(): Record<
       loaded: 0,
       errors: 0,
     },
+    [PrefetchCategory.ROUTE]: { queued: 0, loading: 0, loaded: 0, errors: 0 },
+    [PrefetchCategory.AREA]: { queued: 0, loading: 0, loaded: 0, errors: 0 },
+    [PrefetchCategory.TIME_SERIES]: { queued: 0, loading: 0, loaded: 0, errors: 0 },
+    [PrefetchCategory.PLAYBACK]: { queued: 0, loading: 0, loaded: 0, errors: 0 },
   };
+  return counts;
 }
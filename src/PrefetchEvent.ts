@@ -0,0 +1,120 @@
+/**
+ * @module ol/prefetch/PrefetchEvent
+ */
+import BaseEvent from 'ol/events/Event.js';
+import type {
+  PrefetchBudgetStats,
+  PrefetchCacheOverflow,
+  PrefetchDownloadProgress,
+  PrefetchError,
+  PrefetchPlaybackFrame,
+  PrefetchStats,
+  PrefetchTarget,
+  PrefetchTargetProgress,
+  PrefetchTask,
+} from './PrefetchTypes';
+
+/**
+ * Fired when a prefetch load starts, ends or fails.  `error` is only set for
+ * `tileerror` events.
+ */
+export class PrefetchTileEvent extends BaseEvent {
+  task: PrefetchTask;
+  error: PrefetchError | null;
+
+  constructor(type: string, task: PrefetchTask, error: PrefetchError | null = null) {
+    super(type);
+    this.task = task;
+    this.error = error;
+  }
+}
+
+/**
+ * Fired with a fresh stats snapshot whenever prefetch state changes.
+ */
+export class PrefetchStatsEvent extends BaseEvent {
+  stats: PrefetchStats;
+
+  constructor(type: string, stats: PrefetchStats) {
+    super(type);
+    this.stats = stats;
+  }
+}
+
+/**
+ * Fired when all tiles planned for a next-navigation target have settled.
+ */
+export class PrefetchTargetEvent extends BaseEvent {
+  target: PrefetchTarget;
+  /** Index of the target in the current next-targets list. */
+  index: number;
+
+  constructor(type: string, target: PrefetchTarget, index: number) {
+    super(type);
+    this.target = target;
+    this.index = index;
+  }
+}
+
+/**
+ * Fired when the prefetch budget becomes exhausted.
+ */
+export class PrefetchBudgetEvent extends BaseEvent {
+  budget: PrefetchBudgetStats;
+
+  constructor(type: string, budget: PrefetchBudgetStats) {
+    super(type);
+    this.budget = budget;
+  }
+}
+
+/**
+ * Fired by an offline download as tiles complete, and when it ends.
+ */
+export class PrefetchDownloadEvent extends BaseEvent {
+  progress: PrefetchDownloadProgress;
+
+  constructor(type: string, progress: PrefetchDownloadProgress) {
+    super(type);
+    this.progress = progress;
+  }
+}
+
+/**
+ * Fired when the tiles planned for a source no longer fit its tile cache.
+ */
+export class PrefetchCacheEvent extends BaseEvent {
+  overflow: PrefetchCacheOverflow;
+
+  constructor(type: string, overflow: PrefetchCacheOverflow) {
+    super(type);
+    this.overflow = overflow;
+  }
+}
+
+/**
+ * Fired when a playback frame is due before its tiles have loaded.
+ */
+export class PrefetchPlaybackEvent extends BaseEvent {
+  /** Index of the frame in the playback. */
+  index: number;
+  frame: PrefetchPlaybackFrame;
+  /** When the frame was due, as a `Date.now()` timestamp. */
+  deadline: number;
+  /** Loading progress of the frame's tiles at the deadline; null if not planned. */
+  progress: PrefetchTargetProgress | null;
+
+  constructor(
+    type: string,
+    index: number,
+    frame: PrefetchPlaybackFrame,
+    deadline: number,
+    progress: PrefetchTargetProgress | null,
+  ) {
+    super(type);
+    this.index = index;
+    this.frame = frame;
+    this.deadline = deadline;
+    this.progress = progress;
+  }
+}
@@ -2,24 +2,160 @@
  * @module ol/prefetch/PrefetchManager
  */
 import { listen, unlistenByKey } from 'ol/events.js';
+import Observable, { unByKey } from 'ol/Observable.js';
 import MapEventType from 'ol/MapEventType.js';
-import { PrefetchCategory, DEFAULT_CATEGORY_PRIORITIES } from './PrefetchConstants';
-import type { PrefetchCategoryKey } from './PrefetchConstants';
+import { fromExtent } from 'ol/geom/Polygon.js';
+import {
+  DownloadState,
+  PrefetchCategory,
+  PrefetchEventType,
+  DEFAULT_CATEGORY_PRIORITIES,
+  REGION_TILE_CHUNK,
+  compareTasks,
+} from './PrefetchConstants';
+import type {
+  CustomCategoryKey,
+  PrefetchCategoryKey,
+  PrefetchEventTypeKey,
+} from './PrefetchConstants';
+import {
+  PrefetchBudgetEvent,
+  PrefetchCacheEvent,
+  PrefetchDownloadEvent,
+  PrefetchPlaybackEvent,
+  PrefetchStatsEvent,
+  PrefetchTargetEvent,
+  PrefetchTileEvent,
+} from './PrefetchEvent';
 import PrefetchStats from './PrefetchStats';
+import CategoryRegistry from './CategoryRegistry';
 import PrefetchPlanner from './PrefetchPlanner';
+import {
+  BackgroundLayersStrategy,
+  NextNavStrategy,
+  SpatialBufferStrategy,
+  ZoomPyramidStrategy,
+  planBufferTiles,
+  planExtentTiles,
+  resolveTargetView,
+} from './PlannerStrategies';
 import PrefetchScheduler from './PrefetchScheduler';
 import TileLoader from './TileLoader';
+import PanTracker from './PanTracker';
+import RetryPolicy from './RetryPolicy';
+import CircuitBreaker from './CircuitBreaker';
+import PrefetchBudget from './PrefetchBudget';
+import AdaptiveConcurrency from './AdaptiveConcurrency';
+import OfflineDownload from './OfflineDownload';
+import CacheTileStorage from './CacheTileStorage';
+import IndexedDBTileStorage from './IndexedDBTileStorage';
+import PersistentTileCache, { getTileUrl } from './PersistentTileCache';
+import CacheGuard from './CacheGuard';
+import FetchTileLoader from './FetchTileLoader';
+import TimeSeries from './TimeSeries';
+import Playback from './Playback';
+import TaskQueue from './TaskQueue';
 import type OLMap from 'ol/Map.js';
+import type MapEvent from 'ol/MapEvent.js';
 import type TileQueue from 'ol/TileQueue.js';
+import type Tile from 'ol/Tile.js';
+import type TileSource from 'ol/source/Tile.js';
 import type { Coordinate } from 'ol/coordinate.js';
+import type { Extent } from 'ol/extent.js';
+import type { TileCoord } from 'ol/tilecoord.js';
+import type Geometry from 'ol/geom/Geometry.js';
+import type Projection from 'ol/proj/Projection.js';
+import type LineString from 'ol/geom/LineString.js';
 import type {
   BackgroundLayerEntry,
+  PrefetchAreaOptions,
+  PrefetchBudgetStats,
+  PrefetchCategoryDefinition,
+  PrefetchCategoryPriorities,
+  PrefetchDownloadOptions,
+  PrefetchError,
   PrefetchManagerOptions,
+  PrefetchPathOptions,
+  PrefetchPlannerStrategy,
+  PrefetchPlaybackFrame,
+  PrefetchPlaybackOptions,
+  PrefetchRegionOptions,
+  PrefetchRouteOptions,
   PrefetchTarget,
+  PrefetchTargetProgress,
+  PrefetchTargetReadyOptions,
   PrefetchTask,
   PrefetchTileLayer,
+  PrefetchTileLoad,
+  PrefetchTimeSeriesOptions,
+  PrefetchTimeValue,
 } from './PrefetchTypes';
 import type { EventsKey } from 'ol/events.js';
+import type BaseEvent from 'ol/events/Event.js';
+import type {
+  CombinedOnSignature,
+  EventTypes as ObservableEventTypes,
+  OnSignature,
+} from 'ol/Observable.js';
+
+export type PrefetchManagerOnSignature<Return> = OnSignature<
+  ObservableEventTypes,
+  BaseEvent,
+  Return
+> &
+  OnSignature<
+    | typeof PrefetchEventType.TILELOADSTART
+    | typeof PrefetchEventType.TILELOADEND
+    | typeof PrefetchEventType.TILEERROR,
+    PrefetchTileEvent,
+    Return
+  > &
+  OnSignature<typeof PrefetchEventType.STATS, PrefetchStatsEvent, Return> &
+  OnSignature<typeof PrefetchEventType.TARGETREADY, PrefetchTargetEvent, Return> &
+  OnSignature<typeof PrefetchEventType.BUDGETEXHAUSTED, PrefetchBudgetEvent, Return> &
+  OnSignature<typeof PrefetchEventType.CACHEOVERFLOW, PrefetchCacheEvent, Return> &
+  OnSignature<typeof PrefetchEventType.PLAYBACKSTALL, PrefetchPlaybackEvent, Return> &
+  OnSignature<
+    | typeof PrefetchEventType.QUEUEREBUILT
+    | typeof PrefetchEventType.IDLE
+    | typeof PrefetchEventType.PAUSED
+    | typeof PrefetchEventType.RESUMED,
+    BaseEvent,
+    Return
+  > &
+  CombinedOnSignature<ObservableEventTypes | PrefetchEventTypeKey, Return>;
+
+/**
+ * Value key of a target, independent of property order.
+ */
+function getTargetKey(target: PrefetchTarget): string {
+  return JSON.stringify([
+    target.center,
+    target.zoom,
+    target.resolution,
+    target.rotation,
+    target.extent,
+    target.padding,
+    target.size,
+  ]);
+}
+
+interface AreaJob {
+  id: number;
+  geometry: Geometry;
+  options: PrefetchAreaOptions;
+  /** Final progress once every tile has loaded; the job is not planned any more. */
+  completed: PrefetchTargetProgress | null;
+}
+
+interface TargetWaiter {
+  target: PrefetchTarget;
+  layers: PrefetchTileLayer[] | undefined;
+  minFraction: number;
+  resolve: (progress: PrefetchTargetProgress) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
 
 /**
  * Manages controlled prefetching of tiles across multiple layers and locations.
@@ -27,19 +163,38 @@ import type { EventsKey } from 'ol/events.js';
  * Priority order:
  * 1. User interactions (pan/zoom) always get absolute priority (managed by OL's TileQueue).
  * 2. Spatial prefetching: tiles around the visible viewport for the active layer.
- * 3. Background layer prefetching: load tiles for hidden layers at current viewport.
+ * 3. Background layer prefetching: load tiles for hidden layers at current viewport,
+ *    then a (smaller) buffer ring around it.
  * 4. Anticipated navigation prefetching: preload tiles at the next expected location.
  *
  * When the user interacts with the map (pan/zoom), all prefetching is paused
  * and only resumes after the user stops interacting.
+ *
+ * Progress is reported through events (see `PrefetchEventType`); every
+ * subscription returns a key that can be removed with `unByKey`.
  */
-class PrefetchManager {
+class PrefetchManager extends Observable {
+  declare on: PrefetchManagerOnSignature<EventsKey>;
+  declare once: PrefetchManagerOnSignature<EventsKey>;
+  declare un: PrefetchManagerOnSignature<void>;
+
   private map_: OLMap;
   private maxConcurrentPrefetches_: number;
   private idleDelay_: number;
   private enabled_: boolean;
   private loadActiveDuringInteraction_: boolean;
+  private taskComparator_: (a: PrefetchTask, b: PrefetchTask) => number;
   private userInteracting_ = false;
+  /** Last dispatched paused state, so PAUSED/RESUMED only fire on change. */
+  private paused_: boolean;
+  /** Last dispatched idle state, so IDLE only fires on the transition. */
+  private idle_ = true;
+  /** Targets whose TARGETREADY event has already been dispatched. */
+  private readyTargets_: WeakSet<PrefetchTarget> = new WeakSet();
+  /** Targets whose tiles have been planned at least once. */
+  private plannedTargets_: WeakSet<PrefetchTarget> = new WeakSet();
+  /** Pending `whenTargetReady` promises. */
+  private targetWaiters_: TargetWaiter[] = [];
   private idleTimeout_: ReturnType<typeof setTimeout> | null = null;
 
   private backgroundLayers_: BackgroundLayerEntry[] = [];
@@ -48,42 +203,196 @@ class PrefetchManager {
   /** Fixed layer to prefetch at next-nav targets. Independent of the active layer. */
   private nextNavLayer_: PrefetchTileLayer | null = null;
   private nextTargets_: PrefetchTarget[] = [];
+  /** Next-nav inputs changed during interaction; rebuild it once idle. */
+  private nextNavDirty_ = false;
+  /** Animation path set by `prefetchPath`, planned with the next targets. */
+  private path_: { waypoints: PrefetchTarget[]; options: PrefetchPathOptions } | null =
+    null;
+  /** Jobs started by `prefetchArea`, planned with the next targets. */
+  private areaJobs_: AreaJob[] = [];
+  private nextAreaId_ = 1;
+  /** Offline downloads that have not ended yet. */
+  private downloads_: Set<OfflineDownload> = new Set();
+  /** Route corridor set by `setRoute`, planned with the next targets. */
+  private route_: { coordinates: Coordinate[]; options: PrefetchRouteOptions } | null =
+    null;
+  /** When the route corridor was last planned, to throttle position updates. */
+  private routePlannedAt_ = 0;
+  /** Pending replan with the latest route position. */
+  private routeTimer_: ReturnType<typeof setTimeout> | null = null;
   private excludedLayers_: Set<PrefetchTileLayer> = new Set();
-  private categoryPriorities_: Record<PrefetchCategoryKey, number> = {
+  private layerMaxConcurrent_: Map<PrefetchTileLayer, number> = new Map();
+  /** `maxConcurrent` of managed layers' background entries, kept while a layer is active. */
+  private managedMaxConcurrent_: Map<PrefetchTileLayer, number> = new Map();
+  private sourceMaxConcurrent_: Map<TileSource, number> = new Map();
+  private categoryPriorities_: PrefetchCategoryPriorities = {
     ...DEFAULT_CATEGORY_PRIORITIES,
   };
+  /** Custom categories registered with this manager. */
+  private categories_: CategoryRegistry = new CategoryRegistry();
 
-  private queue_: PrefetchTask[] = [];
-  /** Subset of queue_ - next-nav tasks kept stable across pan/zoom/layer-switch. */
-  private nextNavQueue_: PrefetchTask[] = [];
+  private queue_: TaskQueue;
+  /** Subset of queue_ - next-nav, path and route tasks kept stable across pan/zoom/layer-switch. */
+  private nextNavQueue_: TaskQueue;
 
-  private stats_: PrefetchStats = new PrefetchStats();
+  private stats_: PrefetchStats = new PrefetchStats(this.categories_);
   private planner_: PrefetchPlanner;
   private loader_: TileLoader;
   private scheduler_: PrefetchScheduler;
+  /** Only set when `directionalPrefetch` is enabled. */
+  private panTracker_: PanTracker | null = null;
+  /** Only set when the `retry` option is given. */
+  private retryPolicy_: RetryPolicy | null = null;
+  /** Only set when the `circuitBreaker` option is given. */
+  private circuitBreaker_: CircuitBreaker | null = null;
+  /** Only set when the `budget` option is given. */
+  private budget_: PrefetchBudget | null = null;
+  /** Only set when the `adaptiveConcurrency` option is given. */
+  private adaptive_: AdaptiveConcurrency | null = null;
+  /** Only set when the `persistentCache` option is given. */
+  private persistentCache_: PersistentTileCache | null = null;
+  /** Only set when the `fetchLoader` option is given. */
+  private fetchLoader_: FetchTileLoader | null = null;
+  /** Only set when the `cacheGuard` option is given. */
+  private cacheGuard_: CacheGuard | null = null;
+  /** Only set while a time series is shown (`timeSeries` option or `setTimeSeries`). */
+  private timeSeries_: TimeSeries | null = null;
+  /** Only set while an animation plays (`playback` option or `setPlayback`). */
+  private playback_: Playback | null = null;
 
   private listenerKeys_: EventsKey[] = [];
 
   constructor(options: PrefetchManagerOptions) {
+    super();
+
     this.map_ = options.map;
     this.maxConcurrentPrefetches_ = options.maxConcurrentPrefetches ?? 16;
     this.idleDelay_ = options.idleDelay ?? 80;
     this.enabled_ = options.enabled ?? true;
+    this.paused_ = !this.enabled_;
     this.loadActiveDuringInteraction_ = options.loadActiveDuringInteraction ?? true;
+    this.taskComparator_ = options.taskComparator ?? compareTasks;
+    this.queue_ = new TaskQueue(this.taskComparator_);
+    this.nextNavQueue_ = new TaskQueue(this.taskComparator_);
     if (options.excludedLayers) {
       this.excludedLayers_ = new Set(options.excludedLayers);
     }
 
-    this.planner_ = new PrefetchPlanner(options.spatialBufferFactor ?? 1.5);
+    if (options.retry) {
+      this.retryPolicy_ = new RetryPolicy(options.retry, () => {
+        this.rebuildQueue_();
+        this.scheduler_.scheduleTick();
+      });
+    }
+
+    if (options.circuitBreaker) {
+      this.circuitBreaker_ = new CircuitBreaker(options.circuitBreaker, () => {
+        this.scheduler_.scheduleTick();
+        this.notifyStats_();
+      });
+    }
+
+    if (options.budget) {
+      this.budget_ = new PrefetchBudget(
+        options.budget,
+        (budget) =>
+          this.dispatchEvent(
+            new PrefetchBudgetEvent(PrefetchEventType.BUDGETEXHAUSTED, budget),
+          ),
+        () => {
+          this.scheduler_.scheduleTick();
+          this.notifyStats_();
+        },
+      );
+    }
 
-    this.loader_ = new TileLoader({
-      onSlotFreed: () => {
-        if (!this.userInteracting_ || this.loadActiveDuringInteraction_) {
-          this.fillSlots_();
+    if (options.adaptiveConcurrency) {
+      this.adaptive_ = new AdaptiveConcurrency(
+        options.adaptiveConcurrency === true ? {} : options.adaptiveConcurrency,
+        this.maxConcurrentPrefetches_,
+        () => {
+          this.scheduler_.scheduleTick();
+          this.notifyStats_();
+        },
+      );
+    }
+
+    if (options.persistentCache) {
+      this.persistentCache_ = new PersistentTileCache(options.persistentCache, (tile) =>
+        this.loader_.getLoad(tile),
+      );
+      this.persistentCache_.whenReady().then(() => {
+        if (!this.disposed) {
+          this.rebuildQueue_();
         }
-      },
-      onStatsChanged: () => this.notifyStats_(),
+      });
+    }
+
+    if (options.fetchLoader) {
+      this.fetchLoader_ = new FetchTileLoader(
+        options.fetchLoader,
+        (tile) => this.loader_.getLoad(tile),
+        (url, data) => this.persistentCache_?.put(url, data).catch(() => {}),
+      );
+    }
+
+    if (options.cacheGuard) {
+      this.cacheGuard_ = new CacheGuard(
+        options.cacheGuard === true ? {} : options.cacheGuard,
+        (overflow) =>
+          this.dispatchEvent(
+            new PrefetchCacheEvent(PrefetchEventType.CACHEOVERFLOW, overflow),
+          ),
+      );
+    }
+
+    this.planner_ = new PrefetchPlanner(options.spatialBufferFactor ?? 1.5, {
+      backgroundBufferFactor: options.backgroundBufferFactor,
+      zoomLevelsAbove: options.zoomLevelsAbove,
+      zoomLevelsBelow: options.zoomLevelsBelow,
+      zoomLevelsForBackground: options.zoomLevelsForBackground,
+      zoomLevelsAbovePriorityOffset: options.zoomLevelsAbovePriorityOffset,
+      zoomLevelsBelowPriorityOffset: options.zoomLevelsBelowPriorityOffset,
+      panLookahead: options.panLookahead,
+      taskComparator: this.taskComparator_,
+      retryPolicy: this.retryPolicy_,
+      persistentCache: this.persistentCache_,
+      strategies: options.plannerStrategies,
     });
+    if (options.timeSeries) {
+      this.timeSeries_ = new TimeSeries(options.timeSeries);
+      this.planner_.addStrategy(this.timeSeries_);
+    }
+    if (options.playback) {
+      this.playback_ = this.createPlayback_(options.playback);
+      this.planner_.addStrategy(this.playback_);
+    }
+    if (options.directionalPrefetch) {
+      this.panTracker_ = new PanTracker();
+    }
+
+    this.loader_ = new TileLoader(
+      {
+        onSlotFreed: () => {
+          if (!this.userInteracting_ || this.loadsDuringInteraction_()) {
+            this.fillSlots_();
+          }
+        },
+        onStatsChanged: () => this.notifyStats_(),
+        onLoadTimed: (latency, failed) => this.adaptive_?.recordResult(latency, failed),
+        onTileLoadStart: (task) =>
+          this.dispatchEvent(
+            new PrefetchTileEvent(PrefetchEventType.TILELOADSTART, task),
+          ),
+        onTileLoadEnd: (task, error) => this.onTileLoadEnd_(task, error),
+        isTileShown: (task) => this.isTileShown_(task),
+      },
+      this.retryPolicy_,
+      this.circuitBreaker_,
+      this.budget_,
+      this.fetchLoader_,
+      this.categories_,
+    );
 
     this.scheduler_ = new PrefetchScheduler(options.tickInterval ?? 200, {
       onRebuildNeeded: () => this.rebuildViewport_(),
@@ -105,61 +414,80 @@ class PrefetchManager {
 
   private onMoveStart_(): void {
     this.userInteracting_ = true;
+    this.updatePaused_();
+    this.panTracker_?.reset();
     if (this.idleTimeout_) {
       clearTimeout(this.idleTimeout_);
       this.idleTimeout_ = null;
     }
 
+    // Custom categories that do not pause keep their in-flight loads.
+    const keep = (task: PrefetchTask) =>
+      !this.categories_.pausesDuringInteraction(task.category);
+    const isNextNav = (task: PrefetchTask) => this.isNextNavTask_(task);
     if (this.loadActiveDuringInteraction_) {
       // Drop background in-flight loads but keep active-layer and next-nav ones.
-      this.loader_.abandonNonActive(this.activeLayer_, this.stats_);
+      this.loader_.abandonNonActive(this.activeLayer_, this.stats_, keep);
       // Strip viewport tasks from the queue; next-nav tasks are preserved as-is.
-      this.queue_ = this.queue_.filter(
+      this.queue_.retain(
         (task) =>
           (task.category === PrefetchCategory.SPATIAL_ACTIVE &&
             task.layer === this.activeLayer_) ||
-          task.category === PrefetchCategory.NEXT_NAV_PRIMARY ||
-          task.category === PrefetchCategory.NEXT_NAV_BACKGROUND,
+          isNextNav(task),
       );
     } else {
-      this.loader_.abandonAll(this.stats_);
+      this.loader_.abandonNonActive(null, this.stats_, keep);
       // Strip all viewport tasks; next-nav stays.
-      this.queue_ = this.queue_.filter(
-        (task) =>
-          task.category === PrefetchCategory.NEXT_NAV_PRIMARY ||
-          task.category === PrefetchCategory.NEXT_NAV_BACKGROUND,
-      );
+      this.queue_.retain(isNextNav);
     }
     // nextNavQueue_ is the source of truth - keep it aligned with queue_.
-    const queueIds = new Set(this.queue_.map((t) => t.id));
-    this.nextNavQueue_ = this.nextNavQueue_.filter((t) => queueIds.has(t.id));
+    this.nextNavQueue_.retain((t) => this.queue_.has(t.id));
 
     this.stats_.resetQueuedCounts();
-    for (const task of this.queue_) {
-      this.stats_.recordQueued(task.category);
+    for (const task of this.queue_.getTasks()) {
+      this.stats_.recordQueued(task.category, isNextNav(task) ? 'nextNav' : 'viewport');
     }
     this.scheduler_.dispose();
     this.notifyStats_();
   }
 
   private onMoveEnd_(): void {
+    // The view stands still now; a stale heading must not bias later rebuilds.
+    this.panTracker_?.reset();
+    this.unpinVisitedTargets_();
     if (this.idleTimeout_) {
       clearTimeout(this.idleTimeout_);
     }
     this.idleTimeout_ = setTimeout(() => {
       this.userInteracting_ = false;
-      // Only rebuild the viewport portion - next-nav was never touched.
+      this.updatePaused_();
+      // Next-nav is only rebuilt if it changed during the interaction.
+      if (this.nextNavDirty_) {
+        this.rebuildNextNav_();
+      }
       this.rebuildViewport_();
       this.scheduler_.scheduleTick();
       this.notifyStats_();
     }, this.idleDelay_);
   }
 
-  private onPostRender_(): void {
+  private onPostRender_(event: Event | BaseEvent): void {
+    const frameState = (event as MapEvent).frameState;
+    if (frameState) {
+      this.cacheGuard_?.handleFrame(frameState);
+    }
     if (!this.enabled_) {
       return;
     }
-    if (!this.userInteracting_ || this.loadActiveDuringInteraction_) {
+    if (this.userInteracting_ && this.panTracker_) {
+      const view = this.map_.getView();
+      const center = view.getCenter();
+      const resolution = view.getResolution();
+      if (center && resolution !== undefined) {
+        this.panTracker_.sample(center, resolution, Date.now());
+      }
+    }
+    if (!this.userInteracting_ || this.loadsDuringInteraction_()) {
       this.scheduler_.scheduleTick();
     }
   }
@@ -174,6 +502,8 @@ class PrefetchManager {
    * Next-nav tasks in the queue are left completely untouched.
    */
   private rebuildViewport_(): void {
+    this.planner_.setPanVelocity(this.panTracker_?.getVelocity() ?? null);
+
     if (this.userInteracting_) {
       // During interaction only keep active-layer spatial tasks live.
       if (
@@ -186,13 +516,13 @@ class PrefetchManager {
       const activeSpatial = this.planner_.buildActiveSpatialQueue(
         this.map_,
         this.activeLayer_,
-        this.categoryPriorities_,
+        this.getCategoryPriorities(),
         this.stats_,
       );
       // Splice in fresh spatial tasks, leave next-nav slice untouched.
-      const nextNavTasks = this.nextNavQueue_.slice();
-      this.queue_ = [...activeSpatial, ...nextNavTasks];
-      this.queue_.sort((a, b) => a.priority - b.priority);
+      this.resetQueue_(activeSpatial);
+      this.guardCache_();
+      this.dispatchEvent(PrefetchEventType.QUEUEREBUILT);
       this.notifyStats_();
       return;
     }
@@ -212,13 +542,17 @@ class PrefetchManager {
       this.map_,
       effectiveActiveLayer,
       effectiveBackgroundLayers,
-      this.categoryPriorities_,
+      this.getCategoryPriorities(),
       this.stats_,
+      undefined,
+      this.getEffectiveNextNavLayer_(),
+      this.nextTargets_,
     );
 
     // Merge: fresh viewport tasks + existing next-nav slice.
-    this.queue_ = [...viewportTasks, ...this.nextNavQueue_];
-    this.queue_.sort((a, b) => a.priority - b.priority);
+    this.resetQueue_(viewportTasks);
+    this.guardCache_();
+    this.dispatchEvent(PrefetchEventType.QUEUEREBUILT);
     this.notifyStats_();
   }
 
@@ -229,27 +563,28 @@ class PrefetchManager {
    */
   private rebuildNextNav_(): void {
     if (this.userInteracting_) {
-      // During interaction we keep whatever next-nav tasks are already queued.
+      // During interaction we keep whatever next-nav tasks are already queued,
+      // and catch up on changes once the view is idle.
+      this.nextNavDirty_ = true;
       return;
     }
+    this.nextNavDirty_ = false;
 
     const effectiveBackgroundLayers = this.backgroundLayers_.filter(
       (e) => !this.excludedLayers_.has(e.layer),
     );
-    const effectiveNextNavLayer =
-      this.nextNavLayer_ && !this.excludedLayers_.has(this.nextNavLayer_)
-        ? this.nextNavLayer_
-        : null;
+    const effectiveNextNavLayer = this.getEffectiveNextNavLayer_();
 
     // Seed seenTiles from tasks already sitting in nextNavQueue_ so they are
     // never re-added or re-counted. enqueueTile_ also skips LOADED/LOADING
     // tiles, so together this makes rebuilds fully idempotent.
-    const alreadyQueued = new Set<string>(this.nextNavQueue_.map((t) => t.id));
+    const queuedTasks = this.nextNavQueue_.getTasks();
+    const alreadyQueued = new Set<string>(queuedTasks.map((t) => t.id));
 
     // Stats: reset only next-nav category counts; preserve viewport counts.
     this.stats_.resetNextNavCounts();
     // Re-record the tasks that are still in the queue (not yet dispatched).
-    for (const task of this.nextNavQueue_) {
+    for (const task of queuedTasks) {
       this.stats_.recordQueued(task.category);
     }
 
@@ -258,24 +593,180 @@ class PrefetchManager {
       effectiveBackgroundLayers,
       effectiveNextNavLayer,
       this.nextTargets_,
-      this.categoryPriorities_,
+      this.getCategoryPriorities(),
       this.stats_,
       alreadyQueued,
+      this.activeLayer_ && !this.excludedLayers_.has(this.activeLayer_)
+        ? this.activeLayer_
+        : null,
     );
+    if (this.path_) {
+      newTasks.push(
+        ...this.planner_.buildPathQueue(
+          this.map_,
+          effectiveBackgroundLayers,
+          effectiveNextNavLayer,
+          this.path_.waypoints,
+          this.path_.options,
+          this.getCategoryPriorities(),
+          this.stats_,
+          alreadyQueued,
+        ),
+      );
+    }
+    if (this.route_) {
+      const routeLayers =
+        this.route_.options.layers ?? (this.activeLayer_ ? [this.activeLayer_] : []);
+      newTasks.push(
+        ...this.planner_.buildRouteQueue(
+          this.map_,
+          this.route_.coordinates,
+          this.route_.options,
+          routeLayers.filter((l) => !this.excludedLayers_.has(l)),
+          this.getCategoryPriorities(),
+          this.stats_,
+          alreadyQueued,
+        ),
+      );
+    }
+    for (const job of this.areaJobs_) {
+      if (job.completed) {
+        continue;
+      }
+      const areaLayers =
+        job.options.layers ?? (this.activeLayer_ ? [this.activeLayer_] : []);
+      const areaTasks = this.planner_.buildAreaQueue(
+        this.map_,
+        job.geometry,
+        job.options,
+        areaLayers.filter((l) => !this.excludedLayers_.has(l)),
+        this.getCategoryPriorities(),
+        this.stats_,
+        job,
+        alreadyQueued,
+      );
+      for (const task of areaTasks) {
+        task.areaJob = job.id;
+        newTasks.push(task);
+      }
+    }
 
-    // Append only genuinely new tasks.
-    this.nextNavQueue_ = [...this.nextNavQueue_, ...newTasks];
-    this.nextNavQueue_.sort((a, b) => a.priority - b.priority);
+    for (const target of this.nextTargets_) {
+      this.plannedTargets_.add(target);
+    }
+    const targetLayers = new Set(effectiveBackgroundLayers.map((e) => e.layer));
+    if (effectiveNextNavLayer) {
+      targetLayers.add(effectiveNextNavLayer);
+    }
+    this.stats_.retainJobLayers(this.nextTargets_, targetLayers);
 
     // Merge: existing viewport tasks + updated next-nav slice.
-    const viewportTasks = this.queue_.filter(
-      (t) =>
-        t.category !== PrefetchCategory.NEXT_NAV_PRIMARY &&
-        t.category !== PrefetchCategory.NEXT_NAV_BACKGROUND,
-    );
-    this.queue_ = [...viewportTasks, ...this.nextNavQueue_];
-    this.queue_.sort((a, b) => a.priority - b.priority);
+    const viewportTasks = this.queue_.getTasks().filter((t) => !this.isNextNavTask_(t));
+
+    // Append only genuinely new tasks.
+    for (const task of newTasks) {
+      this.nextNavQueue_.push(task);
+    }
+
+    this.resetQueue_(viewportTasks);
+    this.guardCache_();
+    this.dispatchEvent(PrefetchEventType.QUEUEREBUILT);
     this.notifyStats_();
+
+    // Targets whose tiles are all loaded already have nothing left to wait for.
+    for (const target of this.nextTargets_) {
+      this.checkTargetReady_(target);
+    }
+    for (const job of this.areaJobs_) {
+      this.checkAreaCompleted_(job);
+    }
+  }
+
+  /**
+   * Replace the queue with the given viewport tasks and the next-nav slice.
+   * Where both hold a tile, the more urgent task is kept.
+   */
+  private resetQueue_(viewportTasks: PrefetchTask[]): void {
+    this.queue_ = new TaskQueue(this.taskComparator_, [
+      ...viewportTasks,
+      ...this.nextNavQueue_.getTasks(),
+    ]);
+  }
+
+  private isNextNavTask_(task: PrefetchTask): boolean {
+    return this.nextNavQueue_.get(task.id) === task;
+  }
+
+  /**
+   * Remove next-nav tasks from the queue as well as the next-nav slice, so
+   * they are not dispatched while the next-nav rebuild waits for the
+   * interaction to end.
+   */
+  private dropNextNavTasks_(drop: (task: PrefetchTask) => boolean): void {
+    this.queue_.retain((t) => !this.isNextNavTask_(t) || !drop(t));
+    this.nextNavQueue_.retain((t) => !drop(t));
+  }
+
+  private getEffectiveNextNavLayer_(): PrefetchTileLayer | null {
+    return this.nextNavLayer_ && !this.excludedLayers_.has(this.nextNavLayer_)
+      ? this.nextNavLayer_
+      : null;
+  }
+
+  /**
+   * Drop the tasks that do not fit their source's tile cache, if the cache
+   * guard clamps, and recount the queued tasks.
+   */
+  private guardCache_(): void {
+    if (!this.cacheGuard_) {
+      return;
+    }
+    const queue = this.cacheGuard_.check(
+      this.queue_.getSortedTasks(),
+      this.map_.getView().getProjection(),
+    );
+    if (queue.length === this.queue_.length) {
+      return;
+    }
+    const kept = new Set(queue.map((t) => t.id));
+    this.nextNavQueue_.retain((t) => kept.has(t.id));
+    this.queue_.retain((t) => kept.has(t.id));
+
+    const counts = new Map<PrefetchCategoryKey | CustomCategoryKey, number>();
+    for (const task of queue) {
+      counts.set(task.category, (counts.get(task.category) ?? 0) + 1);
+    }
+    for (const category of [
+      ...Object.values(PrefetchCategory),
+      ...this.categories_.getKeys(),
+    ]) {
+      this.stats_.setQueuedCount(category, counts.get(category) ?? 0);
+    }
+  }
+
+  /**
+   * Release the cache pins of targets the view has arrived at: within a zoom
+   * level of the target, with its centre on screen.
+   */
+  private unpinVisitedTargets_(): void {
+    const size = this.map_.getSize();
+    const view = this.map_.getView();
+    const center = view.getCenter();
+    const resolution = view.getResolution();
+    if (!this.cacheGuard_ || !size || !center || resolution === undefined) {
+      return;
+    }
+    for (const target of this.cacheGuard_.getPinnedTargets()) {
+      const targetView = resolveTargetView(view, target, size);
+      if (
+        targetView &&
+        Math.abs(Math.log2(targetView.resolution / resolution)) < 1 &&
+        Math.abs(targetView.center[0] - center[0]) / resolution < size[0] / 2 &&
+        Math.abs(targetView.center[1] - center[1]) / resolution < size[1] / 2
+      ) {
+        this.cacheGuard_.unpin(target);
+      }
+    }
   }
 
   /**
@@ -287,17 +778,51 @@ class PrefetchManager {
     this.rebuildNextNav_();
   }
 
+  /**
+   * True if some tasks may load while the user pans or zooms.
+   */
+  private loadsDuringInteraction_(): boolean {
+    return (
+      this.loadActiveDuringInteraction_ ||
+      this.categories_
+        .getKeys()
+        .some((key) => !this.categories_.pausesDuringInteraction(key))
+    );
+  }
+
   private fillSlots_(): void {
     if (!this.enabled_) {
       return;
     }
 
-    // During interaction, only allow active-layer spatial tasks through.
+    // During interaction, only allow active-layer spatial tasks and custom
+    // categories that do not pause through.
     const interactionFilter =
-      this.userInteracting_ && this.loadActiveDuringInteraction_
+      this.userInteracting_ && this.loadsDuringInteraction_()
         ? (task: PrefetchTask) =>
-          task.category === PrefetchCategory.SPATIAL_ACTIVE &&
-          task.layer === this.activeLayer_
+            (this.loadActiveDuringInteraction_ &&
+              task.category === PrefetchCategory.SPATIAL_ACTIVE &&
+              task.layer === this.activeLayer_) ||
+            !this.categories_.pausesDuringInteraction(task.category)
+        : null;
+
+    // Tasks for a source whose circuit is open, or whose layer or source is at
+    // its concurrency limit, stay queued and the next eligible task is taken.
+    // Once the budget is used up, or the network is constrained, only
+    // protected categories are dispatched.
+    const breaker = this.circuitBreaker_;
+    const budget = this.budget_;
+    const adaptive = this.adaptive_;
+    const layerLimits = this.getLayerLimits_();
+    const hasLimits = layerLimits.size > 0 || this.sourceMaxConcurrent_.size > 0;
+    const isEligible =
+      interactionFilter || breaker || budget || adaptive || hasLimits
+        ? (task: PrefetchTask) =>
+            (!interactionFilter || interactionFilter(task)) &&
+            (!breaker || breaker.allowsRequest(breaker.keyFor(task.layer))) &&
+            (!budget || budget.allows(task)) &&
+            (!adaptive || adaptive.allowsCategory(task.category)) &&
+            (!hasLimits || this.hasCapacity_(task, layerLimits))
         : null;
 
     if (this.userInteracting_ && !interactionFilter) {
@@ -311,68 +836,234 @@ class PrefetchManager {
 
     const mapTileQueue = this.getMapTileQueue_();
 
-    while (
-      this.loader_.activeCount < this.maxConcurrentPrefetches_ &&
-      this.queue_.length > 0
-    ) {
+    const maxConcurrent = this.getEffectiveMaxConcurrent_();
+    while (this.loader_.activeCount < maxConcurrent && this.queue_.length > 0) {
       if (mapTileQueue && mapTileQueue.getTilesLoading() > 0) {
         this.scheduler_.scheduleTick();
         break;
       }
 
-      // Find the next eligible task (respecting interaction filter).
-      let taskIndex = -1;
-      if (interactionFilter) {
-        taskIndex = this.queue_.findIndex(interactionFilter);
-        if (taskIndex === -1) {
-          break;
-        }
-      } else {
-        taskIndex = 0;
-      }
-
-      const task = this.queue_.splice(taskIndex, 1)[0];
+      // Take the next eligible task (respecting interaction filter and circuits).
+      const task = isEligible ? this.queue_.popMatching(isEligible) : this.queue_.pop();
       if (!task) {
         break;
       }
       // Keep nextNavQueue_ in sync so rebuildNextNav_ doesn't re-count dispatched tasks.
-      if (
-        task.category === PrefetchCategory.NEXT_NAV_PRIMARY ||
-        task.category === PrefetchCategory.NEXT_NAV_BACKGROUND
-      ) {
-        const navIdx = this.nextNavQueue_.indexOf(task);
-        if (navIdx >= 0) this.nextNavQueue_.splice(navIdx, 1);
-      }
+      this.nextNavQueue_.remove(task.id);
       this.loader_.startTask(task, this.map_, this.stats_);
     }
-
-    if (this.queue_.length > 0 && this.loader_.activeCount === 0) {
+    // Tasks skipped as ineligible get their turn on the next fill.
+    this.queue_.restore();
+
+    // While the budget is used up, its recovery timer schedules the next fill.
+    if (
+      this.queue_.length > 0 &&
+      this.loader_.activeCount === 0 &&
+      !this.budget_?.isExhausted()
+    ) {
       this.scheduler_.scheduleTick();
     }
 
     this.notifyStats_();
   }
 
+  private getEffectiveMaxConcurrent_(): number {
+    return this.adaptive_ ? this.adaptive_.getLimit() : this.maxConcurrentPrefetches_;
+  }
+
+  /** Effective per-layer limits: explicit overrides win over background entries. */
+  private getLayerLimits_(): Map<PrefetchTileLayer, number> {
+    const limits = new Map<PrefetchTileLayer, number>();
+    for (const entry of this.backgroundLayers_) {
+      if (entry.maxConcurrent !== undefined) {
+        limits.set(entry.layer, entry.maxConcurrent);
+      }
+    }
+    for (const [layer, max] of this.layerMaxConcurrent_) {
+      limits.set(layer, max);
+    }
+    return limits;
+  }
+
+  private hasCapacity_(
+    task: PrefetchTask,
+    layerLimits: Map<PrefetchTileLayer, number>,
+  ): boolean {
+    const layerLimit = layerLimits.get(task.layer);
+    if (
+      layerLimit !== undefined &&
+      this.loader_.getLayerCount(task.layer) >= layerLimit
+    ) {
+      return false;
+    }
+    const source = task.layer.getSource();
+    if (!source) {
+      return true;
+    }
+    const sourceLimit = this.sourceMaxConcurrent_.get(source);
+    return sourceLimit === undefined || this.loader_.getSourceCount(source) < sourceLimit;
+  }
+
+  /**
+   * True if the task's layer is visible and its tile is at the zoom level and
+   * in the extent the view shows now, so the map renders it.
+   */
+  private isTileShown_(task: PrefetchTask): boolean {
+    const view = this.map_.getView();
+    const size = this.map_.getSize();
+    const resolution = view.getResolution();
+    const source = task.layer.getSource();
+    if (!size || resolution === undefined || !source || !task.layer.isVisible(view)) {
+      return false;
+    }
+    const tileGrid = source.getTileGridForProjection(view.getProjection());
+    const [z, x, y] = task.tileCoord;
+    return (
+      tileGrid.getZForResolution(resolution, source.zDirection) === z &&
+      tileGrid.getTileRangeForExtentAndZ(view.calculateExtent(size), z).containsXY(x, y)
+    );
+  }
+
   private getMapTileQueue_(): TileQueue | null {
     const mapAny = this.map_ as unknown as { tileQueue_?: TileQueue };
     return mapAny.tileQueue_ ?? null;
   }
 
   private notifyStats_(): void {
-    const snapshot = this.stats_.getSnapshot(
-      this.queue_.length,
-      this.loader_.activeCount,
-      this.userInteracting_,
-      this.nextTargets_,
-      this.categoryPriorities_,
+    const snapshot = this.getStats();
+    this.dispatchEvent(new PrefetchStatsEvent(PrefetchEventType.STATS, snapshot));
+
+    const idle = snapshot.queued === 0 && snapshot.loading === 0;
+    if (idle && !this.idle_) {
+      this.dispatchEvent(PrefetchEventType.IDLE);
+    }
+    this.idle_ = idle;
+
+    this.checkTargetWaiters_();
+  }
+
+  /**
+   * Settle pending `whenTargetReady` promises: resolve those whose target is
+   * loaded far enough, reject those whose target was removed.
+   */
+  private checkTargetWaiters_(): void {
+    if (this.targetWaiters_.length === 0) {
+      return;
+    }
+    const pending: TargetWaiter[] = [];
+    for (const waiter of this.targetWaiters_) {
+      if (!this.nextTargets_.includes(waiter.target)) {
+        this.settleTargetWaiter_(waiter);
+        waiter.reject(new Error('Target was removed from the next targets'));
+        continue;
+      }
+      if (this.plannedTargets_.has(waiter.target)) {
+        const progress = this.stats_.getJobProgress(waiter.target, waiter.layers);
+        if (progress.fraction >= waiter.minFraction) {
+          this.settleTargetWaiter_(waiter);
+          waiter.resolve(progress);
+          continue;
+        }
+      }
+      pending.push(waiter);
+    }
+    this.targetWaiters_ = pending;
+  }
+
+  private settleTargetWaiter_(waiter: TargetWaiter): void {
+    if (waiter.timer) {
+      clearTimeout(waiter.timer);
+    }
+  }
+
+  /**
+   * The current target equal to the given one (same view state), so
+   * copies returned by `getNextTargets` can be used to look targets up.
+   */
+  private findTarget_(target: PrefetchTarget): PrefetchTarget | undefined {
+    const key = getTargetKey(target);
+    return this.nextTargets_.find((t) => t === target || getTargetKey(t) === key);
+  }
+
+  /**
+   * Dispatch PAUSED or RESUMED when the combined enabled/interaction state flips.
+   */
+  private updatePaused_(): void {
+    const paused = !this.enabled_ || this.userInteracting_;
+    if (paused === this.paused_) {
+      return;
+    }
+    this.paused_ = paused;
+    this.dispatchEvent(paused ? PrefetchEventType.PAUSED : PrefetchEventType.RESUMED);
+  }
+
+  private onTileLoadEnd_(task: PrefetchTask, error: PrefetchError | null): void {
+    this.dispatchEvent(new PrefetchTileEvent(PrefetchEventType.TILELOADEND, task, error));
+    if (error) {
+      this.dispatchEvent(new PrefetchTileEvent(PrefetchEventType.TILEERROR, task, error));
+    } else {
+      this.cacheGuard_?.pin(task);
+    }
+    if (task.target) {
+      this.checkTargetReady_(task.target);
+    }
+    if (task.areaJob !== undefined) {
+      const job = this.areaJobs_.find((j) => j.id === task.areaJob);
+      if (job) {
+        this.checkAreaCompleted_(job);
+      }
+    }
+  }
+
+  /**
+   * Retire an area job once all of its tiles have loaded: keep its final
+   * progress, stop planning it and forget its tiles.  Jobs with failed tiles
+   * stay, so the retry policy can queue them again.
+   */
+  private checkAreaCompleted_(job: AreaJob): void {
+    if (job.completed) {
+      return;
+    }
+    const progress = this.stats_.getJobProgress(job);
+    if (progress.total > 0 && progress.loaded === progress.total) {
+      job.completed = progress;
+      this.stats_.forgetJob(job);
+    }
+  }
+
+  private getAreaJobProgress_(job: AreaJob): PrefetchTargetProgress {
+    return job.completed ?? this.stats_.getJobProgress(job);
+  }
+
+  /**
+   * Dispatch TARGETREADY once no tiles for the target are queued or loading.
+   */
+  private checkTargetReady_(target: PrefetchTarget): void {
+    const index = this.nextTargets_.indexOf(target);
+    if (index < 0 || this.readyTargets_.has(target)) {
+      return;
+    }
+    if (
+      this.queue_.some((t) => t.target === target) ||
+      this.loader_.someLoading((t) => t.target === target)
+    ) {
+      return;
+    }
+    this.readyTargets_.add(target);
+    this.dispatchEvent(
+      new PrefetchTargetEvent(PrefetchEventType.TARGETREADY, target, index),
     );
-    this.stats_.notify(snapshot);
   }
 
-  addBackgroundLayer(layer: PrefetchTileLayer, priority = 0): void {
+  addBackgroundLayer(
+    layer: PrefetchTileLayer,
+    priority = 0,
+    maxConcurrent?: number,
+  ): void {
     const exists = this.backgroundLayers_.some((e) => e.layer === layer);
     if (!exists) {
-      this.backgroundLayers_.push({ layer, priority });
+      this.attachLayer_(layer);
+      this.backgroundLayers_.push({ layer, priority, maxConcurrent });
       this.backgroundLayers_.sort((a, b) => a.priority - b.priority);
       this.rebuildQueue_();
       this.scheduler_.scheduleTick();
@@ -397,8 +1088,8 @@ class PrefetchManager {
     }
   }
 
-  getBackgroundLayers(): Array<{ layer: PrefetchTileLayer; priority: number }> {
-    return this.backgroundLayers_.map((e) => ({ layer: e.layer, priority: e.priority }));
+  getBackgroundLayers(): BackgroundLayerEntry[] {
+    return this.backgroundLayers_.map((e) => ({ ...e }));
   }
 
   /**
@@ -411,19 +1102,27 @@ class PrefetchManager {
    * completely untouched — the planner sees no change for them and does not
    * re-queue their tiles.
    */
-  syncBackgroundLayers(entries: Array<{ layer: PrefetchTileLayer; priority: number }>): void {
-    const incoming = new Map<PrefetchTileLayer, number>(entries.map((e) => [e.layer, e.priority]));
+  syncBackgroundLayers(entries: BackgroundLayerEntry[]): void {
+    const incoming = new Map<PrefetchTileLayer, BackgroundLayerEntry>(
+      entries.map((e) => [e.layer, e]),
+    );
 
     // Remove layers no longer in the desired set.
     this.backgroundLayers_ = this.backgroundLayers_.filter((e) => incoming.has(e.layer));
 
     // Update priorities of existing entries + add new ones.
-    for (const [layer, priority] of incoming) {
+    for (const [layer, entry] of incoming) {
       const existing = this.backgroundLayers_.find((e) => e.layer === layer);
       if (existing) {
-        existing.priority = priority;
+        existing.priority = entry.priority;
+        existing.maxConcurrent = entry.maxConcurrent;
       } else {
-        this.backgroundLayers_.push({ layer, priority });
+        this.attachLayer_(layer);
+        this.backgroundLayers_.push({
+          layer,
+          priority: entry.priority,
+          maxConcurrent: entry.maxConcurrent,
+        });
       }
     }
 
@@ -433,6 +1132,7 @@ class PrefetchManager {
   }
 
   setActiveLayer(layer: PrefetchTileLayer): void {
+    this.attachLayer_(layer);
     this.activeLayer_ = layer;
     if (this.managedLayers_) {
       this.syncBackgroundFromManaged_();
@@ -449,14 +1149,24 @@ class PrefetchManager {
    *
    * Any sub-priorities previously set with `addBackgroundLayer` are replaced;
    * background layers get sub-priorities matching their position in the list.
+   * Their `maxConcurrent` limits are kept, including across active layer
+   * switches.
    *
    * Call with `null` to go back to manual management.
    */
   setLayers(layers: PrefetchTileLayer[] | null, activeIndex = 0): void {
     this.managedLayers_ = layers ? [...layers] : null;
+    for (const layer of this.managedMaxConcurrent_.keys()) {
+      if (!layers?.includes(layer)) {
+        this.managedMaxConcurrent_.delete(layer);
+      }
+    }
     if (!layers || layers.length === 0) {
       return;
     }
+    for (const layer of layers) {
+      this.attachLayer_(layer);
+    }
     this.activeLayer_ = layers[activeIndex] ?? layers[0];
     this.syncBackgroundFromManaged_();
     this.rebuildViewport_();
@@ -484,11 +1194,22 @@ class PrefetchManager {
   /** Derives backgroundLayers_ from managedLayers_, treating all non-active layers as background. */
   private syncBackgroundFromManaged_(): void {
     if (!this.managedLayers_) return;
+    for (const entry of this.backgroundLayers_) {
+      if (entry.maxConcurrent !== undefined) {
+        this.managedMaxConcurrent_.set(entry.layer, entry.maxConcurrent);
+      } else {
+        this.managedMaxConcurrent_.delete(entry.layer);
+      }
+    }
     this.backgroundLayers_ = [];
     let priority = 1;
     for (const layer of this.managedLayers_) {
       if (layer !== this.activeLayer_) {
-        this.backgroundLayers_.push({ layer, priority: priority++ });
+        this.backgroundLayers_.push({
+          layer,
+          priority: priority++,
+          maxConcurrent: this.managedMaxConcurrent_.get(layer),
+        });
       }
     }
   }
@@ -504,6 +1225,9 @@ class PrefetchManager {
    * Pass `null` to disable next-nav primary prefetching.
    */
   setNextNavLayer(layer: PrefetchTileLayer | null): void {
+    if (layer) {
+      this.attachLayer_(layer);
+    }
     this.nextNavLayer_ = layer;
     this.rebuildNextNav_();
     this.scheduler_.scheduleTick();
@@ -513,6 +1237,15 @@ class PrefetchManager {
     return this.nextNavLayer_;
   }
 
+  /**
+   * Wrap the layer's tile load function for the persistent cache and the
+   * fetch loader.  The fetch loader goes last so it sees prefetch loads first.
+   */
+  private attachLayer_(layer: PrefetchTileLayer): void {
+    this.persistentCache_?.attach(layer);
+    this.fetchLoader_?.attach(layer);
+  }
+
   /**
    * Exclude a layer from all prefetching.  If the layer is currently the
    * active layer its spatial prefetch will stop; if it is a background layer
@@ -554,19 +1287,25 @@ class PrefetchManager {
   }
 
   /**
-   * Replace the entire list of next targets with the provided array.
+   * Replace the entire list of next targets with the provided array.  Targets
+   * may describe the full view on arrival (rotation, resolution, an extent to
+   * fit, viewport size) so the exact tiles the map will render are prefetched.
    */
-  setNextTargets(targets: Array<{ center: Coordinate; zoom: number }>): void {
-    this.nextTargets_ = targets.map((t) => ({ center: t.center, zoom: t.zoom }));
+  setNextTargets(targets: PrefetchTarget[]): void {
+    // Keep unchanged targets so their progress and pending promises carry over.
+    this.nextTargets_ = targets.map((t) => this.findTarget_(t) ?? { ...t });
+    this.cacheGuard_?.retainTargets(this.nextTargets_);
     this.rebuildNextNav_();
     this.scheduler_.scheduleTick();
   }
 
   /**
-   * Add a single target to the end of the next-targets list.
+   * Add a single target to the end of the next-targets list.  Like the
+   * targets of `setNextTargets`, it may describe the full view on arrival.
    */
-  addNextTarget(center: Coordinate, zoom: number): void {
-    this.nextTargets_.push({ center, zoom });
+  addNextTarget(target: PrefetchTarget): void {
+    this.nextTargets_.push({ ...target });
+    this.cacheGuard_?.retainTargets(this.nextTargets_);
     this.rebuildNextNav_();
     this.scheduler_.scheduleTick();
   }
@@ -577,6 +1316,7 @@ class PrefetchManager {
   removeNextTarget(index: number): void {
     if (index >= 0 && index < this.nextTargets_.length) {
       this.nextTargets_.splice(index, 1);
+      this.cacheGuard_?.retainTargets(this.nextTargets_);
       this.rebuildNextNav_();
       this.scheduler_.scheduleTick();
     }
@@ -587,6 +1327,7 @@ class PrefetchManager {
    */
   clearNextTargets(): void {
     this.nextTargets_ = [];
+    this.cacheGuard_?.retainTargets([]);
     this.rebuildNextNav_();
     this.scheduler_.scheduleTick();
   }
@@ -595,7 +1336,468 @@ class PrefetchManager {
    * Return a copy of the current next-targets list.
    */
   getNextTargets(): PrefetchTarget[] {
-    return this.nextTargets_.map((t) => ({ center: t.center, zoom: t.zoom }));
+    return this.nextTargets_.map((t) => ({ ...t }));
+  }
+
+  /**
+   * Loading progress of a next target, per layer.
+   */
+  getTargetProgress(target: number | PrefetchTarget): PrefetchTargetProgress | null {
+    const found =
+      typeof target === 'number' ? this.nextTargets_[target] : this.findTarget_(target);
+    return found ? this.stats_.getJobProgress(found) : null;
+  }
+
+  /**
+   * Resolve once a next target (by index or value) is loaded, e.g. to enable
+   * a "Go" button in a guided tour.  Only the tiles covering the target's
+   * viewport count, not its buffer.
+   *
+   * The promise rejects if the target is not (or no longer) in the next
+   * targets, on timeout, or when the manager is disposed.  Tiles that keep
+   * failing count against `minFraction`, so use a value below 1 or a
+   * `timeout` with unreliable sources.
+   */
+  whenTargetReady(
+    target: number | PrefetchTarget,
+    options: PrefetchTargetReadyOptions = {},
+  ): Promise<PrefetchTargetProgress> {
+    const found =
+      typeof target === 'number' ? this.nextTargets_[target] : this.findTarget_(target);
+    if (!found) {
+      return Promise.reject(new Error('Target is not one of the next targets'));
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: TargetWaiter = {
+        target: found,
+        layers: options.layers,
+        minFraction: Math.min(1, Math.max(0, options.minFraction ?? 1)),
+        resolve,
+        reject,
+        timer: null,
+      };
+      if (options.timeout !== undefined) {
+        waiter.timer = setTimeout(() => {
+          this.targetWaiters_ = this.targetWaiters_.filter((w) => w !== waiter);
+          reject(new Error('Timed out waiting for target'));
+        }, options.timeout);
+      }
+      this.targetWaiters_.push(waiter);
+      this.checkTargetWaiters_();
+    });
+  }
+
+  /**
+   * Prefetch the frames of an upcoming `view.animate` or fly-to through the
+   * given waypoints, so intermediate views do not show empty tiles.  Uses the
+   * next-nav layer and background layers; earlier frames load first.
+   * Replaces any previous path.
+   */
+  prefetchPath(waypoints: PrefetchTarget[], options: PrefetchPathOptions = {}): void {
+    this.dropPathTasks_();
+    this.path_ = { waypoints: waypoints.map((w) => ({ ...w })), options };
+    this.rebuildNextNav_();
+    this.scheduler_.scheduleTick();
+  }
+
+  /**
+   * Stop prefetching the path set by `prefetchPath`.
+   */
+  clearPath(): void {
+    if (!this.path_) {
+      return;
+    }
+    this.dropPathTasks_();
+    this.path_ = null;
+    this.rebuildNextNav_();
+    this.scheduler_.scheduleTick();
+  }
+
+  /**
+   * Remove queued path tasks - the only next-nav tasks without a target.
+   */
+  private dropPathTasks_(): void {
+    this.dropNextNavTasks_((t) => t.path === true);
+  }
+
+  /**
+   * Show a time series in one layer: every time value gets a copy of the
+   * layer's source, and the viewport tiles of the `before` and `after` times
+   * around the current one are prefetched, nearest first, in the `timeSeries`
+   * category.  Replaces any previous series; `null` stops it and gives the
+   * layer its own source back.
+   */
+  setTimeSeries(options: PrefetchTimeSeriesOptions | null): void {
+    if (this.timeSeries_) {
+      this.planner_.removeStrategy(this.timeSeries_.name);
+      this.timeSeries_.dispose();
+      this.timeSeries_ = null;
+    }
+    if (options) {
+      this.timeSeries_ = new TimeSeries(options);
+      this.planner_.addStrategy(this.timeSeries_);
+    }
+    this.rebuildViewport_();
+    this.scheduler_.scheduleTick();
+  }
+
+  /**
+   * Show another time of the series and move the prefetch window around it.
+   */
+  setCurrentTime(time: PrefetchTimeValue): void {
+    if (!this.timeSeries_) {
+      throw new Error('setCurrentTime requires setTimeSeries to be called first');
+    }
+    if (!this.timeSeries_.setCurrentTime(time, this.getPlaybackTimes_())) {
+      throw new RangeError(`Time ${time} is not in the series`);
+    }
+    this.rebuildViewport_();
+    this.scheduler_.scheduleTick();
+  }
+
+  getCurrentTime(): PrefetchTimeValue | null {
+    return this.timeSeries_?.getCurrentTime() ?? null;
+  }
+
+  /**
+   * Prefetch the frames of an animation, e.g. a time-lapse, ahead of their
+   * display deadlines: the current frame and the `lookAhead` ones after it,
+   * sooner deadlines first, in the `playback` category.  Frames are layers,
+   * or times of the series set with `setTimeSeries`.  Replaces any previous
+   * playback; `null` stops it.
+   */
+  setPlayback(options: PrefetchPlaybackOptions | null): void {
+    if (this.playback_) {
+      this.planner_.removeStrategy(this.playback_.name);
+      this.playback_.dispose();
+      this.playback_ = null;
+    }
+    if (options) {
+      this.playback_ = this.createPlayback_(options);
+      this.planner_.addStrategy(this.playback_);
+    }
+    this.rebuildViewport_();
+    this.scheduler_.scheduleTick();
+  }
+
+  /**
+   * Report the frame the player shows, and whether it keeps playing.  Time
+   * frames are shown by switching the time series to them; layer frames are
+   * up to the player.  While playing, a `playbackstall` event is dispatched
+   * for every frame that is due before its tiles have loaded.
+   */
+  setPlaybackFrame(index: number, playing = true): void {
+    const playback = this.playback_;
+    if (!playback) {
+      throw new Error('setPlaybackFrame requires setPlayback to be called first');
+    }
+    if (!playback.setFrame(index, playing)) {
+      throw new RangeError(`Frame ${index} is not in the playback`);
+    }
+    const frame = playback.getFrames()[index];
+    if (typeof frame !== 'object') {
+      this.timeSeries_?.setCurrentTime(frame, this.getPlaybackTimes_());
+    }
+    this.rebuildViewport_();
+    this.scheduler_.scheduleTick();
+  }
+
+  getPlaybackFrame(): number | null {
+    return this.playback_?.getIndex() ?? null;
+  }
+
+  /**
+   * True once all tiles of the frame in the current view have loaded, so a
+   * player can wait for buffering instead of showing a blank frame.  Only
+   * the current frame and the look-ahead are planned; other frames are
+   * never ready.
+   */
+  isFrameReady(index: number): boolean {
+    return this.playback_?.isFrameReady(index) ?? false;
+  }
+
+  /**
+   * Loading progress of a frame's tiles in the current view, or null if the
+   * frame is not planned.
+   */
+  getFrameProgress(index: number): PrefetchTargetProgress | null {
+    return this.playback_?.getFrameProgress(index) ?? null;
+  }
+
+  private createPlayback_(options: PrefetchPlaybackOptions): Playback {
+    for (const frame of options.frames) {
+      if (typeof frame !== 'object' && !this.timeSeries_?.getTimes().includes(frame)) {
+        throw new RangeError(`Frame time ${frame} is not in the time series`);
+      }
+    }
+    const playback = new Playback(options, {
+      getFrameLayer: (frame: PrefetchPlaybackFrame) => {
+        if (typeof frame !== 'object') {
+          return this.timeSeries_?.getFrameLayer(frame) ?? null;
+        }
+        return this.excludedLayers_.has(frame) ? null : frame;
+      },
+      getProgress: (job) => this.stats_.getJobProgress(job),
+      onStall: (index, deadline, progress) =>
+        this.dispatchEvent(
+          new PrefetchPlaybackEvent(
+            PrefetchEventType.PLAYBACKSTALL,
+            index,
+            playback.getFrames()[index],
+            deadline,
+            progress,
+          ),
+        ),
+    });
+    return playback;
+  }
+
+  /**
+   * Time frames in the playback window, whose copies the time series keeps.
+   */
+  private getPlaybackTimes_(): PrefetchTimeValue[] {
+    const playback = this.playback_;
+    if (!playback) {
+      return [];
+    }
+    const frames = playback.getFrames();
+    return playback
+      .getWindow()
+      .map((index) => frames[index])
+      .filter((frame): frame is PrefetchTimeValue => typeof frame !== 'object');
+  }
+
+  /**
+   * Prefetch every tile touching a corridor around a known route, e.g. for
+   * vehicle tracking.  Tiles are queued in the `route` category, ordered by
+   * distance along the route from `options.position`.  Replaces any previous
+   * route.
+   */
+  setRoute(route: LineString | Coordinate[], options: PrefetchRouteOptions = {}): void {
+    this.route_ = {
+      coordinates: Array.isArray(route) ? route.slice() : route.getCoordinates(),
+      options: { ...options },
+    };
+    this.replanRoute_();
+  }
+
+  /**
+   * Move the current position along the route; tiles behind it are dropped
+   * and the rest are re-ordered from it.  The corridor is replanned at most
+   * once per `replanInterval`, with the latest position.
+   */
+  setRoutePosition(position: Coordinate | null): void {
+    if (!this.route_) {
+      return;
+    }
+    this.route_.options.position = position;
+    if (this.routeTimer_) {
+      return;
+    }
+    const interval = this.route_.options.replanInterval ?? 1000;
+    const wait = this.routePlannedAt_ + interval - Date.now();
+    if (wait > 0) {
+      this.routeTimer_ = setTimeout(() => {
+        this.routeTimer_ = null;
+        this.replanRoute_();
+      }, wait);
+      return;
+    }
+    this.replanRoute_();
+  }
+
+  /**
+   * Stop prefetching the route set by `setRoute`.
+   */
+  clearRoute(): void {
+    if (!this.route_) {
+      return;
+    }
+    this.route_ = null;
+    this.replanRoute_();
+  }
+
+  private replanRoute_(): void {
+    if (this.routeTimer_) {
+      clearTimeout(this.routeTimer_);
+      this.routeTimer_ = null;
+    }
+    this.routePlannedAt_ = Date.now();
+    this.dropRouteTasks_();
+    this.rebuildNextNav_();
+    this.scheduler_.scheduleTick();
+  }
+
+  private dropRouteTasks_(): void {
+    this.dropNextNavTasks_((t) => t.category === PrefetchCategory.ROUTE);
+  }
+
+  /**
+   * Warm up an area of interest, e.g. a municipality boundary, at one or more
+   * zoom levels.  Only tiles that intersect the geometry itself are queued,
+   * in the `area` category, or the custom one given as `category`.  Returns a
+   * job id for `getAreaProgress` and `cancelArea`; progress is also reported
+   * in the stats `areas` list.
+   */
+  prefetchArea(geometry: Geometry, options: PrefetchAreaOptions = {}): number {
+    if (options.category !== undefined && !this.categories_.has(options.category)) {
+      throw new Error(`Unknown prefetch category ${options.category}`);
+    }
+    const job: AreaJob = {
+      id: this.nextAreaId_++,
+      geometry: geometry.clone(),
+      options: { ...options },
+      completed: null,
+    };
+    this.areaJobs_.push(job);
+    this.rebuildNextNav_();
+    this.scheduler_.scheduleTick();
+    return job.id;
+  }
+
+  getAreaProgress(id: number): PrefetchTargetProgress | null {
+    const job = this.areaJobs_.find((j) => j.id === id);
+    return job ? this.getAreaJobProgress_(job) : null;
+  }
+
+  /**
+   * Stop an area job, or forget a completed one.  Tiles already loading are
+   * left to finish.
+   */
+  cancelArea(id: number): void {
+    const index = this.areaJobs_.findIndex((j) => j.id === id);
+    if (index < 0) {
+      return;
+    }
+    const [job] = this.areaJobs_.splice(index, 1);
+    this.stats_.forgetJob(job);
+    if (job.completed) {
+      this.notifyStats_();
+      return;
+    }
+    this.dropNextNavTasks_((t) => t.areaJob === id);
+    // Tiles other jobs share with this one were only queued for this one.
+    this.rebuildNextNav_();
+    this.scheduler_.scheduleTick();
+  }
+
+  /**
+   * Number of tiles `downloadRegion` would consider for the region, to show
+   * the user before starting.  Counts a chunk at a time so large regions do
+   * not block the page.
+   */
+  async estimateRegion(
+    region: Extent | Geometry,
+    options: PrefetchRegionOptions = {},
+  ): Promise<number> {
+    const tiles = this.regionTiles_(region, options);
+    let count = 0;
+    while (!tiles.next().done) {
+      if (++count % REGION_TILE_CHUNK === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Download every tile in an extent or polygon, across a zoom range, into
+   * persistent storage for offline use.  Tiles are fetched by URL, outside the
+   * map's tile cache and the prefetch queue; ones already stored are skipped.
+   * The download starts straight away and can be paused, resumed and
+   * cancelled; it fires `downloadprogress` and `downloadend` events.  Its
+   * tiles are enumerated while it runs, so `total` grows until `counting`
+   * turns false.
+   */
+  downloadRegion(
+    region: Extent | Geometry,
+    options: PrefetchDownloadOptions,
+  ): OfflineDownload {
+    const pixelRatio =
+      (this.map_ as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1;
+    const projection = this.map_.getView().getProjection();
+    const download = new OfflineDownload(
+      this.regionTileUrls_(this.regionTiles_(region, options), pixelRatio, projection),
+      options.storage,
+      options.concurrency,
+      options.fetchOptions,
+    );
+    this.downloads_.add(download);
+    download.on(PrefetchEventType.DOWNLOADEND, (event) => {
+      // A download with failed tiles can still be resumed to retry them.
+      if (event.progress.failed === 0 || event.progress.state !== DownloadState.DONE) {
+        this.downloads_.delete(download);
+      }
+    });
+    download.resume();
+    return download;
+  }
+
+  /**
+   * The prefetch load in progress for a tile, or null if the tile is not being
+   * prefetched.  Custom `tileLoadFunction`s can pass its signal to `fetch`, so
+   * abandoned prefetches cancel their request.
+   */
+  getTileLoad(tile: Tile): PrefetchTileLoad | null {
+    return this.loader_.getLoad(tile);
+  }
+
+  /**
+   * The persistent tile cache, if the `persistentCache` option was given.  It
+   * is a tile storage itself, so passing it to `downloadRegion` makes
+   * downloaded tiles available to the map as well.
+   */
+  getPersistentCache(): PersistentTileCache | null {
+    return this.persistentCache_;
+  }
+
+  /**
+   * The region's tiles, lazily.  The view zoom and active layer are read now,
+   * not when the tiles are enumerated.
+   */
+  private regionTiles_(
+    region: Extent | Geometry,
+    options: PrefetchRegionOptions,
+  ): Generator<[PrefetchTileLayer, TileCoord]> {
+    const view = this.map_.getView();
+    const geometry = Array.isArray(region) ? fromExtent(region) : region;
+    const minZoom = options.minZoom ?? options.maxZoom ?? Math.round(view.getZoom() ?? 0);
+    const maxZoom = Math.max(minZoom, options.maxZoom ?? minZoom);
+    const layers = options.layers ?? (this.activeLayer_ ? [this.activeLayer_] : []);
+    return this.layerAreaTiles_(geometry, layers, minZoom, maxZoom, view.getProjection());
+  }
+
+  private *layerAreaTiles_(
+    geometry: Geometry,
+    layers: PrefetchTileLayer[],
+    minZoom: number,
+    maxZoom: number,
+    projection: Projection,
+  ): Generator<[PrefetchTileLayer, TileCoord]> {
+    for (const layer of layers) {
+      for (const tileCoord of this.planner_.areaTiles(
+        geometry,
+        layer,
+        minZoom,
+        maxZoom,
+        projection,
+      )) {
+        yield [layer, tileCoord];
+      }
+    }
+  }
+
+  private *regionTileUrls_(
+    tiles: Iterable<[PrefetchTileLayer, TileCoord]>,
+    pixelRatio: number,
+    projection: Projection,
+  ): Generator<string> {
+    for (const [layer, tileCoord] of tiles) {
+      const url = getTileUrl(layer, tileCoord, pixelRatio, projection);
+      if (url) {
+        yield url;
+      }
+    }
   }
 
   /**
@@ -612,9 +1814,23 @@ class PrefetchManager {
     this.clearNextTargets();
   }
 
+  /**
+   * Forget all failed tiles, including those the retry policy gave up on, so
+   * they are queued again by the next rebuild.  No-op without a `retry` option.
+   */
+  clearFailedTiles(): void {
+    if (!this.retryPolicy_) {
+      return;
+    }
+    this.retryPolicy_.clear();
+    this.rebuildQueue_();
+    this.scheduler_.scheduleTick();
+  }
+
   setEnabled(enabled: boolean): void {
     this.enabled_ = enabled;
     this.scheduler_.enabled = enabled;
+    this.updatePaused_();
     if (enabled) {
       this.rebuildQueue_();
       this.scheduler_.scheduleTick();
@@ -626,8 +1842,13 @@ class PrefetchManager {
     return this.enabled_;
   }
 
+  /**
+   * Set the global concurrency limit.  With `adaptiveConcurrency` this is the
+   * upper bound the adaptive limit may grow to.
+   */
   setMaxConcurrent(max: number): void {
     this.maxConcurrentPrefetches_ = Math.max(1, max);
+    this.adaptive_?.setMax(this.maxConcurrentPrefetches_);
     this.fillSlots_();
   }
 
@@ -635,11 +1856,121 @@ class PrefetchManager {
     return this.maxConcurrentPrefetches_;
   }
 
-  setCategoryPriorities(priorities: Partial<Record<PrefetchCategoryKey, number>>): void {
+  /**
+   * Limit concurrent prefetches for a single layer, so a slow layer cannot
+   * take every slot.  Takes precedence over `BackgroundLayerEntry.maxConcurrent`.
+   * Pass `null` to remove the limit.
+   */
+  setLayerMaxConcurrent(layer: PrefetchTileLayer, max: number | null): void {
+    if (max === null) {
+      this.layerMaxConcurrent_.delete(layer);
+    } else {
+      this.layerMaxConcurrent_.set(layer, Math.max(1, max));
+    }
+    this.fillSlots_();
+  }
+
+  getLayerMaxConcurrent(layer: PrefetchTileLayer): number | null {
+    return (
+      this.layerMaxConcurrent_.get(layer) ??
+      this.backgroundLayers_.find((e) => e.layer === layer)?.maxConcurrent ??
+      null
+    );
+  }
+
+  /**
+   * Limit concurrent prefetches across all layers sharing a tile source.
+   * Pass `null` to remove the limit.
+   */
+  setSourceMaxConcurrent(source: TileSource, max: number | null): void {
+    if (max === null) {
+      this.sourceMaxConcurrent_.delete(source);
+    } else {
+      this.sourceMaxConcurrent_.set(source, Math.max(1, max));
+    }
+    this.fillSlots_();
+  }
+
+  getSourceMaxConcurrent(source: TileSource): number | null {
+    return this.sourceMaxConcurrent_.get(source) ?? null;
+  }
+
+  /**
+   * Plan tiles with an extra strategy, or replace the strategy of the same
+   * name (built-in ones are `spatial`, `background`, `zoomPyramid` and
+   * `nextNav`).  The queue is replanned.
+   */
+  addPlannerStrategy(strategy: PrefetchPlannerStrategy): void {
+    this.planner_.addStrategy(strategy);
+    this.replanStrategies_();
+  }
+
+  /**
+   * Stop planning with the named strategy.  Its queued tasks are dropped.
+   */
+  removePlannerStrategy(name: string): void {
+    if (this.planner_.removeStrategy(name)) {
+      this.replanStrategies_();
+    }
+  }
+
+  getPlannerStrategies(): PrefetchPlannerStrategy[] {
+    return this.planner_.getStrategies();
+  }
+
+  /**
+   * Replan both queue portions from scratch, as a strategy change may add or
+   * remove next-nav tasks too.
+   */
+  private replanStrategies_(): void {
+    this.nextNavQueue_.clear();
+    this.rebuildQueue_();
+    this.scheduler_.scheduleTick();
+  }
+
+  /**
+   * Add an application-defined category, e.g. for search results or bookmarks,
+   * to plan tiles under with `prefetchArea` or a planner strategy.  Its tasks
+   * get the registered priority unless `setCategoryPriorities` overrides it,
+   * are counted in the stats `custom` record, and wait while the user pans or
+   * zooms unless `pausesDuringInteraction` is false.  Registering a key again
+   * updates it; built-in categories cannot be redefined.  Categories are
+   * known to this manager only.
+   */
+  registerCategory(key: CustomCategoryKey, definition: PrefetchCategoryDefinition): void {
+    this.categories_.register(key, definition);
+    this.notifyStats_();
+  }
+
+  /**
+   * Forget a custom category, along with its priority override if any.
+   */
+  unregisterCategory(key: CustomCategoryKey): void {
+    this.categories_.unregister(key);
+    delete this.categoryPriorities_[key];
+    this.notifyStats_();
+  }
+
+  setCategoryPriorities(
+    priorities: Partial<Record<PrefetchCategoryKey | CustomCategoryKey, number>>,
+  ): void {
+    const previous = this.getCategoryPriorities();
     for (const key in priorities) {
-      const typedKey = key as PrefetchCategoryKey;
-      if (typedKey in this.categoryPriorities_ && priorities[typedKey] !== undefined) {
-        this.categoryPriorities_[typedKey] = priorities[typedKey] as number;
+      const priority = priorities[key];
+      if (this.categories_.has(key) && priority !== undefined) {
+        this.categoryPriorities_[key] = priority;
+      }
+    }
+    // Queued next-nav tasks are not replanned; move them with their category.
+    const current = this.getCategoryPriorities();
+    for (const task of this.nextNavQueue_.getTasks()) {
+      const delta = (current[task.category] ?? 0) - (previous[task.category] ?? 0);
+      if (delta !== 0) {
+        const inQueue = this.queue_.get(task.id) === task;
+        this.nextNavQueue_.updatePriority(task.id, task.priority + delta);
+        if (inQueue) {
+          this.queue_.updatePriority(task.id, task.priority);
+        }
       }
     }
     this.rebuildQueue_();
@@ -647,25 +1978,73 @@ class PrefetchManager {
     this.notifyStats_();
   }
 
-  getCategoryPriorities(): Record<PrefetchCategoryKey, number> {
-    return { ...this.categoryPriorities_ };
+  /**
+   * Priorities of the built-in and registered custom categories.
+   */
+  getCategoryPriorities(): PrefetchCategoryPriorities {
+    const priorities = { ...this.categoryPriorities_ };
+    for (const key of this.categories_.getKeys()) {
+      priorities[key] = this.categories_.getPriority(this.categoryPriorities_, key);
+    }
+    return priorities;
   }
 
-  onStats(callback: (stats: import('./PrefetchTypes').PrefetchStats) => void): void {
-    this.stats_.onStats(callback);
+  /**
+   * Subscribe to stats snapshots.  Shorthand for listening to the `stats`
+   * event; remove with `unByKey`.
+   */
+  onStats(callback: (stats: import('./PrefetchTypes').PrefetchStats) => void): EventsKey {
+    return this.on(PrefetchEventType.STATS, (evt) => callback(evt.stats));
   }
 
   /**
    * Register a one-shot callback that fires once the prefetch queue fully
    * drains (`queued === 0 && loading === 0`).  Automatically removed after
-   * firing.
+   * firing; removing the returned key with `unByKey` cancels it.
    *
    * @param callback  Invoked once when idle.
    * @param maxWaitMs Safety timeout in ms (default 60 s) - fires the callback
    *                  even if the queue never fully drains.
    */
-  onIdle(callback: () => void, maxWaitMs = 60_000): void {
-    this.stats_.onIdle(callback, maxWaitMs);
+  onIdle(callback: () => void, maxWaitMs = 60_000): EventsKey {
+    const fire = () => {
+      clearTimeout(timer);
+      unByKey(key);
+      callback();
+    };
+    const key = this.on(PrefetchEventType.STATS, (evt) => {
+      if (evt.stats.queued === 0 && evt.stats.loading === 0) {
+        fire();
+      }
+    });
+    const timer = setTimeout(() => {
+      if (this.getListeners(PrefetchEventType.STATS)?.includes(key.listener)) {
+        fire();
+      }
+    }, maxWaitMs);
+    return key;
+  }
+
+  /**
+   * Register a callback fired each time the session or per-minute budget
+   * becomes exhausted.  Shorthand for listening to the `budgetexhausted`
+   * event; never fires without a `budget` option.
+   */
+  onBudgetExhausted(callback: (budget: PrefetchBudgetStats) => void): EventsKey {
+    return this.on(PrefetchEventType.BUDGETEXHAUSTED, (evt) => callback(evt.budget));
+  }
+
+  /**
+   * Start a new budget session: forget all recorded usage and resume
+   * dispatching every category.
+   */
+  resetBudget(): void {
+    if (!this.budget_) {
+      return;
+    }
+    this.budget_.reset();
+    this.scheduler_.scheduleTick();
+    this.notifyStats_();
   }
 
   getStats(): import('./PrefetchTypes').PrefetchStats {
@@ -674,11 +2053,22 @@ class PrefetchManager {
       this.loader_.activeCount,
       this.userInteracting_,
       this.nextTargets_,
-      this.categoryPriorities_,
+      this.getCategoryPriorities(),
+      this.circuitBreaker_?.getSnapshot(),
+      this.budget_?.getSnapshot() ?? null,
+      {
+        limit: this.getEffectiveMaxConcurrent_(),
+        adaptive: this.adaptive_ !== null,
+        networkConstrained: this.adaptive_?.isConstrained() ?? false,
+      },
+      this.areaJobs_.map((job) => ({
+        id: job.id,
+        progress: this.getAreaJobProgress_(job),
+      })),
     );
   }
 
-  dispose(): void {
+  protected disposeInternal(): void {
     for (const key of this.listenerKeys_) {
       unlistenByKey(key);
     }
@@ -687,21 +2077,77 @@ class PrefetchManager {
     if (this.idleTimeout_) {
       clearTimeout(this.idleTimeout_);
     }
+    if (this.routeTimer_) {
+      clearTimeout(this.routeTimer_);
+    }
 
     this.scheduler_.dispose();
     this.loader_.dispose();
     this.stats_.dispose();
-
-    this.queue_ = [];
-    this.nextNavQueue_ = [];
+    this.retryPolicy_?.dispose();
+    this.circuitBreaker_?.dispose();
+    this.budget_?.dispose();
+    this.adaptive_?.dispose();
+    this.fetchLoader_?.dispose();
+    this.persistentCache_?.dispose();
+    this.cacheGuard_?.dispose();
+    this.timeSeries_?.dispose();
+    this.playback_?.dispose();
+
+    this.queue_.clear();
+    this.nextNavQueue_.clear();
     this.backgroundLayers_ = [];
     this.activeLayer_ = null;
     this.managedLayers_ = null;
     this.nextNavLayer_ = null;
     this.nextTargets_ = [];
+    this.path_ = null;
+    this.route_ = null;
+    this.areaJobs_ = [];
     this.excludedLayers_.clear();
+    this.layerMaxConcurrent_.clear();
+    this.managedMaxConcurrent_.clear();
+    this.sourceMaxConcurrent_.clear();
+
+    for (const download of this.downloads_) {
+      download.dispose();
+    }
+    this.downloads_.clear();
+
+    for (const waiter of this.targetWaiters_) {
+      this.settleTargetWaiter_(waiter);
+      waiter.reject(new Error('PrefetchManager was disposed'));
+    }
+    this.targetWaiters_ = [];
+
+    super.disposeInternal();
   }
 }
 
 export default PrefetchManager;
-export { PrefetchCategory };
+export {
+  PrefetchCategory,
+  PrefetchEventType,
+  DownloadState,
+  compareTasks,
+  CategoryRegistry,
+  OfflineDownload,
+  CacheTileStorage,
+  IndexedDBTileStorage,
+  PersistentTileCache,
+  TimeSeries,
+  Playback,
+  SpatialBufferStrategy,
+  BackgroundLayersStrategy,
+  ZoomPyramidStrategy,
+  NextNavStrategy,
+  planExtentTiles,
+  planBufferTiles,
+  PrefetchBudgetEvent,
+  PrefetchCacheEvent,
+  PrefetchDownloadEvent,
+  PrefetchPlaybackEvent,
+  PrefetchStatsEvent,
+  PrefetchTargetEvent,
+  PrefetchTileEvent,
+};
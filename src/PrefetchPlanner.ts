@@ -3,45 +3,242 @@
  */
 import { getUid } from 'ol/util.js';
 import TileState from 'ol/TileState.js';
-import { getForViewAndSize, buffer as bufferExtent } from 'ol/extent.js';
-import { PrefetchCategory } from './PrefetchConstants';
-import type { PrefetchCategoryKey } from './PrefetchConstants';
-import type Map from 'ol/Map.js';
+import { clamp } from 'ol/math.js';
+import {
+  boundingExtent,
+  getCenter,
+  getForViewAndSize,
+  buffer as bufferExtent,
+} from 'ol/extent.js';
+import { inAndOut } from 'ol/easing.js';
+import { PrefetchCategory, compareTasks } from './PrefetchConstants';
+import type { CustomCategoryKey, PrefetchCategoryKey } from './PrefetchConstants';
+import {
+  BackgroundLayersStrategy,
+  LAYER_PRIORITY_STEP,
+  NextNavStrategy,
+  SpatialBufferStrategy,
+  ZoomPyramidStrategy,
+  planExtentTiles,
+  resolveTargetView,
+} from './PlannerStrategies';
+import type { TargetViewState } from './PlannerStrategies';
+import type OLMap from 'ol/Map.js';
+import type Geometry from 'ol/geom/Geometry.js';
 import type TileSource from 'ol/source/Tile.js';
 import type Tile from 'ol/Tile.js';
 import type Projection from 'ol/proj/Projection.js';
 import type { Extent } from 'ol/extent.js';
+import type { Coordinate } from 'ol/coordinate.js';
+import type { Size } from 'ol/size.js';
 import type { TileCoord } from 'ol/tilecoord.js';
 import type {
   BackgroundLayerEntry,
+  PrefetchAreaOptions,
+  PrefetchCategoryPriorities,
+  PrefetchPathOptions,
+  PrefetchPlanContext,
+  PrefetchPlanPhase,
+  PrefetchPlannerStrategy,
+  PrefetchRouteOptions,
   PrefetchTarget,
   PrefetchTask,
+  PrefetchTaskDescriptor,
   PrefetchTileLayer,
 } from './PrefetchTypes';
 import type PrefetchStats from './PrefetchStats';
+import type RetryPolicy from './RetryPolicy';
+import type PersistentTileCache from './PersistentTileCache';
 
 interface PrefetchPlannerContext {
   queue: PrefetchTask[];
   seenTiles: Set<string>;
   pixelRatio: number;
   stats: PrefetchStats;
+  /** Point tasks are ordered outward from (view centre or next target centre). */
+  focus: Coordinate | null;
+  /** Next-navigation target tasks are being planned for, if any. */
+  target: PrefetchTarget | null;
+  /** Job every planned tile is recorded for in the stats, if any. */
+  job?: object;
+  /**
+   * Phase of the strategy the tiles are planned by.  Tiles planned outside
+   * strategies (paths, routes, areas) are next-nav ones.
+   */
+  phase?: PrefetchPlanPhase;
+}
+
+export interface PrefetchPlannerOptions {
+  /**
+   * Factor to expand viewport for background layer buffer prefetch.
+   * Defaults to 1.25, independent of the spatial buffer factor.
+   */
+  backgroundBufferFactor?: number;
+  /** Number of coarser (parent) zoom levels to prefetch around the view. */
+  zoomLevelsAbove?: number;
+  /** Number of finer (child) zoom levels to prefetch around the view centre. */
+  zoomLevelsBelow?: number;
+  /** Also prefetch the zoom pyramid for background layers. */
+  zoomLevelsForBackground?: boolean;
+  /** Priority offset added per parent level away from the current zoom. */
+  zoomLevelsAbovePriorityOffset?: number;
+  /** Priority offset added per child level away from the current zoom. */
+  zoomLevelsBelowPriorityOffset?: number;
+  /**
+   * How far ahead (ms) the current pan velocity is projected when shifting
+   * the buffered extent.
+   */
+  panLookahead?: number;
+  /** Orders tasks within the queue. Defaults to priority, then distance. */
+  taskComparator?: (a: PrefetchTask, b: PrefetchTask) => number;
+  /** Failed tiles that are cooling down or given up on are not queued. */
+  retryPolicy?: RetryPolicy | null;
+  /** Tiles held in the persistent cache are treated as loaded. */
+  persistentCache?: PersistentTileCache | null;
+  /** Strategies to plan with in addition to the built-in ones. */
+  strategies?: PrefetchPlannerStrategy[];
+}
+
+/** Name of the strategy that keeps planning during interaction. */
+const ACTIVE_STRATEGY = 'spatial';
+
+function getTileKey(layer: PrefetchTileLayer, tileCoord: TileCoord): string {
+  return `${getUid(layer)}/${tileCoord[0]}/${tileCoord[1]}/${tileCoord[2]}`;
+}
+
+/**
+ * Position of the point on segment `a`-`b` closest to `point`, as a fraction
+ * of the segment, and its squared distance to `point`.
+ */
+function projectOnSegment(
+  a: Coordinate,
+  b: Coordinate,
+  point: Coordinate,
+): { fraction: number; distanceSq: number } {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSq = dx * dx + dy * dy;
+  const fraction =
+    lengthSq === 0
+      ? 0
+      : clamp(((point[0] - a[0]) * dx + (point[1] - a[1]) * dy) / lengthSq, 0, 1);
+  const x = a[0] + fraction * dx - point[0];
+  const y = a[1] + fraction * dy - point[1];
+  return { fraction, distanceSq: x * x + y * y };
+}
+
+/**
+ * Distance along the route to each vertex.
+ */
+function getRouteMeasures(route: Coordinate[]): number[] {
+  const measures = [0];
+  for (let i = 1; i < route.length; i++) {
+    const dx = route[i][0] - route[i - 1][0];
+    const dy = route[i][1] - route[i - 1][1];
+    measures.push(measures[i - 1] + Math.sqrt(dx * dx + dy * dy));
+  }
+  return measures;
+}
+
+/**
+ * Distance along the route to the route point closest to `point`.
+ */
+function getMeasureAlongRoute(
+  route: Coordinate[],
+  measures: number[],
+  point: Coordinate,
+): number {
+  let best = Infinity;
+  let measure = 0;
+  for (let i = 0; i < route.length - 1; i++) {
+    const { fraction, distanceSq } = projectOnSegment(route[i], route[i + 1], point);
+    if (distanceSq < best) {
+      best = distanceSq;
+      measure = measures[i] + fraction * (measures[i + 1] - measures[i]);
+    }
+  }
+  return measure;
 }
 
 /**
  * Responsible for deciding WHAT tiles to load.
  *
  * Builds the prioritised prefetch queue by inspecting the current view state,
- * active layer, background layers, and next navigation target.
+ * active layer, background layers, and next navigation target.  The viewport
+ * and next-nav queues are planned by strategies: the built-in spatial,
+ * background, zoom pyramid and next-nav ones, plus any added.  Their tiles
+ * are merged by tile key, keeping the most urgent.
  */
 class PrefetchPlanner {
-  private spatialBufferFactor_: number;
+  private panVelocity_: Coordinate | null = null;
+  private taskComparator_: (a: PrefetchTask, b: PrefetchTask) => number;
+  private retryPolicy_: RetryPolicy | null;
+  private persistentCache_: PersistentTileCache | null;
+  private strategies_: PrefetchPlannerStrategy[];
   private lastNextTargetsKey_: string | null = null;
 
   /**
    * @param spatialBufferFactor Factor to expand viewport for spatial prefetch.
+   * @param options Optional background buffer and zoom pyramid settings.
+   */
+  constructor(spatialBufferFactor: number, options: PrefetchPlannerOptions = {}) {
+    const panLookahead = options.panLookahead ?? 1000;
+    this.taskComparator_ = options.taskComparator ?? compareTasks;
+    this.retryPolicy_ = options.retryPolicy ?? null;
+    this.persistentCache_ = options.persistentCache ?? null;
+    this.strategies_ = [
+      new SpatialBufferStrategy(spatialBufferFactor, panLookahead),
+      new BackgroundLayersStrategy(options.backgroundBufferFactor ?? 1.25, panLookahead),
+      new ZoomPyramidStrategy({
+        levelsAbove: options.zoomLevelsAbove,
+        levelsBelow: options.zoomLevelsBelow,
+        forBackground: options.zoomLevelsForBackground,
+        abovePriorityOffset: options.zoomLevelsAbovePriorityOffset,
+        belowPriorityOffset: options.zoomLevelsBelowPriorityOffset,
+      }),
+      new NextNavStrategy(spatialBufferFactor),
+    ];
+    for (const strategy of options.strategies ?? []) {
+      this.addStrategy(strategy);
+    }
+  }
+
+  /**
+   * Set the current pan vector (map units per ms).  While set, buffers around
+   * the current view are shifted towards the pan direction and their tiles are
+   * ordered by projected time-to-visibility.  Pass `null` for a symmetric buffer.
    */
-  constructor(spatialBufferFactor: number) {
-    this.spatialBufferFactor_ = spatialBufferFactor;
+  setPanVelocity(velocity: Coordinate | null): void {
+    this.panVelocity_ = velocity;
+  }
+
+  /**
+   * Add a strategy, replacing the one with the same name if any.  Built-in
+   * strategies can be replaced this way too.
+   */
+  addStrategy(strategy: PrefetchPlannerStrategy): void {
+    const index = this.strategies_.findIndex((s) => s.name === strategy.name);
+    if (index >= 0) {
+      this.strategies_[index] = strategy;
+    } else {
+      this.strategies_.push(strategy);
+    }
+  }
+
+  /**
+   * Remove the strategy with the given name.  Returns false if there is none.
+   */
+  removeStrategy(name: string): boolean {
+    const index = this.strategies_.findIndex((s) => s.name === name);
+    if (index < 0) {
+      return false;
+    }
+    this.strategies_.splice(index, 1);
+    return true;
+  }
+
+  getStrategies(): PrefetchPlannerStrategy[] {
+    return this.strategies_.slice();
   }
 
   /**
@@ -50,127 +247,73 @@ class PrefetchPlanner {
    * while background and next-nav prefetch is paused.
    */
   buildActiveSpatialQueue(
-    map: Map,
+    map: OLMap,
     activeLayer: PrefetchTileLayer,
-    categoryPriorities: Record<PrefetchCategoryKey, number>,
+    categoryPriorities: PrefetchCategoryPriorities,
     stats: PrefetchStats,
   ): PrefetchTask[] {
     const queue: PrefetchTask[] = [];
-    const seenTiles = new Set<string>();
-
-    const view = map.getView();
-    if (!view || !view.isDef()) {
-      return queue;
-    }
-
-    const mapSize = map.getSize();
-    if (!mapSize) {
-      return queue;
-    }
-
-    const viewState = view.getState();
-    const viewExtent = getForViewAndSize(
-      viewState.center,
-      viewState.resolution,
-      viewState.rotation,
-      mapSize,
+    const context = this.createPlanContext_(
+      map,
+      activeLayer,
+      [],
+      null,
+      [],
+      categoryPriorities,
     );
-
-    const zoom = view.getZoom();
-    if (zoom === undefined) {
+    if (!context) {
       return queue;
     }
-    const z = Math.round(zoom);
-    const projection = view.getProjection();
-    const pixelRatio =
-      (map as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1;
-
-    const ctx: PrefetchPlannerContext = { queue, seenTiles, pixelRatio, stats };
-
-    this.enqueueSpatialBuffer_(
-      ctx,
-      activeLayer,
-      viewExtent,
-      z,
-      projection,
-      categoryPriorities[PrefetchCategory.SPATIAL_ACTIVE],
-      PrefetchCategory.SPATIAL_ACTIVE,
+    this.enqueuePlanned_(
+      this.createContext_(map, queue, new Set<string>(), stats),
+      context,
+      this.strategies_.filter((s) => s.name === ACTIVE_STRATEGY),
     );
-
-    queue.sort((a, b) => a.priority - b.priority);
+    queue.sort(this.taskComparator_);
     return queue;
   }
 
   /**
    * Builds tasks for the current viewport only: spatial buffer for the active
-   * layer and viewport tiles for all background layers.
+   * layer, plus viewport and buffer tiles for all background layers, and the
+   * tiles of any other `viewport` strategy.
    * Next-nav tasks are NOT included - call buildNextNavQueue separately.
    */
   buildViewportQueue(
-    map: Map,
+    map: OLMap,
     activeLayer: PrefetchTileLayer | null,
     backgroundLayers: BackgroundLayerEntry[],
-    categoryPriorities: Record<PrefetchCategoryKey, number>,
+    categoryPriorities: PrefetchCategoryPriorities,
     stats: PrefetchStats,
     seenTiles?: Set<string>,
+    nextNavLayer: PrefetchTileLayer | null = null,
+    nextTargets: PrefetchTarget[] = [],
   ): PrefetchTask[] {
     const queue: PrefetchTask[] = [];
-    const seen = seenTiles ?? new Set<string>();
-
-    const view = map.getView();
-    if (!view || !view.isDef()) return queue;
-    const mapSize = map.getSize();
-    if (!mapSize) return queue;
-
-    const viewState = view.getState();
-    const viewExtent = getForViewAndSize(
-      viewState.center,
-      viewState.resolution,
-      viewState.rotation,
-      mapSize,
+    const context = this.createPlanContext_(
+      map,
+      activeLayer,
+      backgroundLayers,
+      nextNavLayer,
+      nextTargets,
+      categoryPriorities,
     );
-    const zoom = view.getZoom();
-    if (zoom === undefined) return queue;
-    const z = Math.round(zoom);
-    const projection = view.getProjection();
-    const pixelRatio =
-      (map as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1;
-
-    const ctx: PrefetchPlannerContext = { queue, seenTiles: seen, pixelRatio, stats };
-
-    if (activeLayer) {
-      this.enqueueSpatialBuffer_(
-        ctx,
-        activeLayer,
-        viewExtent,
-        z,
-        projection,
-        categoryPriorities[PrefetchCategory.SPATIAL_ACTIVE],
-        PrefetchCategory.SPATIAL_ACTIVE,
-      );
-    }
-
-    for (const entry of backgroundLayers) {
-      if (entry.layer === activeLayer) continue;
-      const subPriority = entry.priority * 0.001;
-      this.enqueueViewportTiles_(
-        ctx,
-        entry.layer,
-        viewExtent,
-        z,
-        projection,
-        categoryPriorities[PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT] + subPriority,
-        PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT,
-      );
+    if (!context) {
+      return queue;
     }
-
-    queue.sort((a, b) => a.priority - b.priority);
+    this.enqueuePlanned_(
+      this.createContext_(map, queue, seenTiles ?? new Set<string>(), stats),
+      context,
+      this.getStrategiesForPhase_('viewport'),
+    );
+    queue.sort(this.taskComparator_);
     return queue;
   }
 
   /**
    * Builds tasks for all next-navigation targets: primary layer + background
-   * layers at each target location.
+   * layers at each target location, and the tiles of any other `nextNav`
+   * strategy.
    * Viewport tasks are NOT included - compose with buildViewportQueue.
    *
    * Tiles already LOADED or LOADING are skipped by enqueueTile_, so calling
@@ -178,95 +321,408 @@ class PrefetchPlanner {
    * untouched.
    */
   buildNextNavQueue(
-    map: Map,
+    map: OLMap,
     backgroundLayers: BackgroundLayerEntry[],
     nextNavLayer: PrefetchTileLayer | null,
     nextTargets: PrefetchTarget[],
-    categoryPriorities: Record<PrefetchCategoryKey, number>,
+    categoryPriorities: PrefetchCategoryPriorities,
+    stats: PrefetchStats,
+    seenTiles?: Set<string>,
+    activeLayer: PrefetchTileLayer | null = null,
+  ): PrefetchTask[] {
+    const queue: PrefetchTask[] = [];
+    const context = this.createPlanContext_(
+      map,
+      activeLayer,
+      backgroundLayers,
+      nextNavLayer,
+      nextTargets,
+      categoryPriorities,
+    );
+    if (!context) {
+      return queue;
+    }
+    this.enqueuePlanned_(
+      this.createContext_(map, queue, seenTiles ?? new Set<string>(), stats),
+      context,
+      this.getStrategiesForPhase_('nextNav'),
+    );
+    queue.sort(this.taskComparator_);
+    return queue;
+  }
+
+  /**
+   * Builds tasks for the frames of an animation through `waypoints`, as
+   * `view.animate` would play it: centre, resolution and rotation are
+   * interpolated per segment with the easing function.  Tiles needed earlier
+   * along the path get a lower (earlier) priority within the next-nav
+   * categories.  Only the viewport of each sample is queued, no buffer.
+   * The tasks are marked as `path` tasks.
+   */
+  buildPathQueue(
+    map: OLMap,
+    backgroundLayers: BackgroundLayerEntry[],
+    nextNavLayer: PrefetchTileLayer | null,
+    waypoints: PrefetchTarget[],
+    options: PrefetchPathOptions,
+    categoryPriorities: PrefetchCategoryPriorities,
     stats: PrefetchStats,
     seenTiles?: Set<string>,
   ): PrefetchTask[] {
     const queue: PrefetchTask[] = [];
-    const seen = seenTiles ?? new Set<string>();
 
     if (!nextNavLayer && backgroundLayers.length === 0) return queue;
-    if (nextTargets.length === 0) return queue;
 
-    const view = map.getView();
-    if (!view || !view.isDef()) return queue;
-    const mapSize = map.getSize();
-    if (!mapSize) return queue;
+    const context = this.createPlanContext_(
+      map,
+      null,
+      backgroundLayers,
+      nextNavLayer,
+      waypoints,
+      categoryPriorities,
+    );
+    if (!context) return queue;
 
-    const pixelRatio =
-      (map as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1;
-    const ctx: PrefetchPlannerContext = { queue, seenTiles: seen, pixelRatio, stats };
+    const states: TargetViewState[] = [];
+    for (const waypoint of waypoints) {
+      const state = resolveTargetView(context.view, waypoint, context.mapSize);
+      if (state) states.push(state);
+    }
+    if (states.length === 0) return queue;
 
-    for (let i = 0; i < nextTargets.length; i++) {
-      const nextTarget = nextTargets[i];
-      const targetOffset = i * 0.1;
-      const nextZ = Math.round(nextTarget.zoom);
-      const nextResolution = view.getResolutionForZoom(nextTarget.zoom);
-      const nextExtent = getForViewAndSize(nextTarget.center, nextResolution, 0, mapSize);
-      const projection = view.getProjection();
+    const duration = options.duration ?? 1000;
+    const easing = options.easing ?? inAndOut;
+    const samples = Math.max(
+      states.length,
+      options.samples ?? Math.ceil(duration / 100) + 1,
+    );
+    const segments = Math.max(1, states.length - 1);
+
+    const ctx = this.createContext_(map, queue, seenTiles ?? new Set<string>(), stats);
+    let descriptors: PrefetchTaskDescriptor[] = [];
+    const sample: PrefetchPlannerStrategy = {
+      name: 'path',
+      phase: 'nextNav',
+      plan: () => descriptors,
+    };
+
+    for (let i = 0; i < samples; i++) {
+      const fraction = samples > 1 ? i / (samples - 1) : 0;
+      const segment = Math.min(segments - 1, Math.floor(fraction * segments));
+      const from = states[segment];
+      const to = states[Math.min(segment + 1, states.length - 1)];
+      const progress = easing(fraction * segments - segment);
+      const lerp = (a: number, b: number) => a + progress * (b - a);
+
+      const center: Coordinate = [
+        lerp(from.center[0], to.center[0]),
+        lerp(from.center[1], to.center[1]),
+      ];
+      const resolution = lerp(from.resolution, to.resolution);
+      const zoom = context.view.getZoomForResolution(resolution);
+      if (zoom === undefined) continue;
+      const z = Math.round(zoom);
+      const extent = getForViewAndSize(
+        center,
+        resolution,
+        lerp(from.rotation, to.rotation),
+        [lerp(from.size[0], to.size[0]), lerp(from.size[1], to.size[1])],
+      );
+      // Stay within the first target's 0.1 band so targets keep their order.
+      const pathOffset = fraction * 0.09;
+      descriptors = [];
 
       if (nextNavLayer) {
-        this.enqueueViewportTiles_(
-          ctx,
+        planExtentTiles(
+          descriptors,
           nextNavLayer,
-          nextExtent,
-          nextZ,
-          projection,
-          categoryPriorities[PrefetchCategory.NEXT_NAV_PRIMARY] + targetOffset,
-          PrefetchCategory.NEXT_NAV_PRIMARY,
-        );
-        this.enqueueSpatialBuffer_(
-          ctx,
-          nextNavLayer,
-          nextExtent,
-          nextZ,
-          projection,
-          categoryPriorities[PrefetchCategory.NEXT_NAV_PRIMARY] + targetOffset,
+          extent,
+          z,
+          context.projection,
+          categoryPriorities[PrefetchCategory.NEXT_NAV_PRIMARY] + pathOffset,
           PrefetchCategory.NEXT_NAV_PRIMARY,
         );
       }
 
       for (const entry of backgroundLayers) {
         if (entry.layer === nextNavLayer) continue;
-        const subPriority = entry.priority * 0.001;
-        this.enqueueViewportTiles_(
-          ctx,
+        planExtentTiles(
+          descriptors,
           entry.layer,
-          nextExtent,
-          nextZ,
-          projection,
+          extent,
+          z,
+          context.projection,
           categoryPriorities[PrefetchCategory.NEXT_NAV_BACKGROUND] +
-            targetOffset +
-            subPriority,
+            pathOffset +
+            entry.priority * LAYER_PRIORITY_STEP,
           PrefetchCategory.NEXT_NAV_BACKGROUND,
         );
       }
+
+      // Each sample's tiles are ordered outward from the sample's centre.
+      this.enqueuePlanned_(ctx, { ...context, center }, [sample]);
+    }
+
+    for (const task of queue) {
+      task.path = true;
+    }
+    queue.sort(this.taskComparator_);
+    return queue;
+  }
+
+  /**
+   * Builds `route` tasks for every tile touching the corridor around a route,
+   * for each layer and zoom in the configured range.  Tiles are ordered by
+   * distance along the route from `options.position` (their `distance` is in
+   * pixels at the current view resolution); tiles behind it are skipped.
+   */
+  buildRouteQueue(
+    map: OLMap,
+    route: Coordinate[],
+    options: PrefetchRouteOptions,
+    layers: PrefetchTileLayer[],
+    categoryPriorities: PrefetchCategoryPriorities,
+    stats: PrefetchStats,
+    seenTiles?: Set<string>,
+  ): PrefetchTask[] {
+    const queue: PrefetchTask[] = [];
+
+    if (route.length === 0 || layers.length === 0) return queue;
+
+    const view = map.getView();
+    if (!view || !view.isDef()) return queue;
+    const viewZoom = view.getZoom();
+    const viewResolution = view.getResolution();
+    if (viewZoom === undefined || viewResolution === undefined) return queue;
+
+    const minZoom = options.minZoom ?? options.maxZoom ?? Math.round(viewZoom);
+    const maxZoom = Math.max(minZoom, options.maxZoom ?? minZoom);
+    const width = options.width ?? 256;
+    // A single coordinate is a corridor around a point.
+    const points = route.length === 1 ? [route[0], route[0]] : route;
+    const measures = getRouteMeasures(points);
+    const start = options.position
+      ? getMeasureAlongRoute(points, measures, options.position)
+      : 0;
+
+    const pixelRatio =
+      (map as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1;
+    const ctx: PrefetchPlannerContext = {
+      queue,
+      seenTiles: seenTiles ?? new Set<string>(),
+      pixelRatio,
+      stats,
+      focus: null,
+      target: null,
+    };
+    const projection = view.getProjection();
+
+    for (let l = 0; l < layers.length; l++) {
+      const layer = layers[l];
+      const source = layer.getSource() as TileSource | null;
+      if (!source) continue;
+      const tileGrid = source.getTileGridForProjection(projection);
+      const priority = categoryPriorities[PrefetchCategory.ROUTE] + l * 0.001;
+      const zMin = Math.max(minZoom, tileGrid.getMinZoom());
+      const zMax = Math.min(maxZoom, tileGrid.getMaxZoom());
+
+      for (let z = zMin; z <= zMax; z++) {
+        const resolution = tileGrid.getResolution(z);
+        const halfWidth = (options.widthUnits === 'map' ? width : width * resolution) / 2;
+
+        for (let i = 0; i < points.length - 1; i++) {
+          if (measures[i + 1] < start - halfWidth) continue;
+          const a = points[i];
+          const b = points[i + 1];
+          const tileRange = tileGrid.getTileRangeForExtentAndZ(
+            bufferExtent(boundingExtent([a, b]), halfWidth),
+            z,
+          );
+
+          for (let x = tileRange.minX; x <= tileRange.maxX; x++) {
+            for (let y = tileRange.minY; y <= tileRange.maxY; y++) {
+              const tileExtent = tileGrid.getTileCoordExtent([z, x, y]);
+              // Conservative touch test: corridor edge within the tile's circumcircle.
+              const reach =
+                halfWidth +
+                Math.hypot(tileExtent[2] - tileExtent[0], tileExtent[3] - tileExtent[1]) /
+                  2;
+              const { fraction, distanceSq } = projectOnSegment(
+                a,
+                b,
+                getCenter(tileExtent),
+              );
+              if (distanceSq > reach * reach) continue;
+              const measure = measures[i] + fraction * (measures[i + 1] - measures[i]);
+              if (measure < start - reach) continue;
+
+              this.enqueueTile_(
+                ctx,
+                layer,
+                source,
+                [z, x, y],
+                projection,
+                priority,
+                PrefetchCategory.ROUTE,
+                false,
+                Math.max(0, measure - start) / viewResolution,
+              );
+            }
+          }
+        }
+      }
+    }
+
+    queue.sort(this.taskComparator_);
+    return queue;
+  }
+
+  /**
+   * Builds `area` tasks for every tile that intersects `geometry` (not just
+   * its bounding box), for each layer and zoom in the configured range.
+   * Coarser zooms load first; within a zoom tiles fill from the centre of
+   * the area.  All tiles are recorded as progress of `job`.
+   */
+  buildAreaQueue(
+    map: OLMap,
+    geometry: Geometry,
+    options: PrefetchAreaOptions,
+    layers: PrefetchTileLayer[],
+    categoryPriorities: PrefetchCategoryPriorities,
+    stats: PrefetchStats,
+    job: object,
+    seenTiles?: Set<string>,
+  ): PrefetchTask[] {
+    const queue: PrefetchTask[] = [];
+
+    if (layers.length === 0) return queue;
+
+    const view = map.getView();
+    if (!view || !view.isDef()) return queue;
+    const viewZoom = view.getZoom();
+    if (viewZoom === undefined) return queue;
+
+    const minZoom = options.minZoom ?? options.maxZoom ?? Math.round(viewZoom);
+    const maxZoom = Math.max(minZoom, options.maxZoom ?? minZoom);
+    const category = options.category ?? PrefetchCategory.AREA;
+    const basePriority = options.priority ?? categoryPriorities[category] ?? Infinity;
+    const extent = geometry.getExtent();
+
+    const pixelRatio =
+      (map as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1;
+    const ctx: PrefetchPlannerContext = {
+      queue,
+      seenTiles: seenTiles ?? new Set<string>(),
+      pixelRatio,
+      stats,
+      focus: getCenter(extent),
+      target: null,
+      job,
+    };
+    const projection = view.getProjection();
+
+    for (let l = 0; l < layers.length; l++) {
+      const layer = layers[l];
+      const source = layer.getSource() as TileSource | null;
+      if (!source) continue;
+      this.forEachAreaTile(
+        geometry,
+        layer,
+        minZoom,
+        maxZoom,
+        projection,
+        (tileCoord, zoomIndex) => {
+          // Zoom steps stay below the 0.001 layer step so layer order holds per zoom.
+          const priority = basePriority + l * 0.001 + zoomIndex * 0.00001;
+          this.enqueueTile_(
+            ctx,
+            layer,
+            source,
+            tileCoord,
+            projection,
+            priority,
+            category,
+          );
+        },
+      );
     }
 
-    queue.sort((a, b) => a.priority - b.priority);
+    queue.sort(this.taskComparator_);
     return queue;
   }
 
+  /**
+   * Calls `callback` for every tile of `layer` that intersects `geometry`, for
+   * each zoom in the range clamped to the layer's tile grid.  `zoomIndex`
+   * counts up from the lowest zoom visited.
+   */
+  forEachAreaTile(
+    geometry: Geometry,
+    layer: PrefetchTileLayer,
+    minZoom: number,
+    maxZoom: number,
+    projection: Projection,
+    callback: (tileCoord: TileCoord, zoomIndex: number) => void,
+  ): void {
+    let zMin: number | undefined;
+    for (const tileCoord of this.areaTiles(
+      geometry,
+      layer,
+      minZoom,
+      maxZoom,
+      projection,
+    )) {
+      zMin ??= tileCoord[0];
+      callback(tileCoord, tileCoord[0] - zMin);
+    }
+  }
+
+  /**
+   * Lazily yields the tiles `forEachAreaTile` visits, lowest zoom first.  Does
+   * not touch the source's tile cache, so it is cheap enough for tile count
+   * estimates.
+   */
+  *areaTiles(
+    geometry: Geometry,
+    layer: PrefetchTileLayer,
+    minZoom: number,
+    maxZoom: number,
+    projection: Projection,
+  ): Generator<TileCoord> {
+    const source = layer.getSource() as TileSource | null;
+    if (!source) {
+      return;
+    }
+    const tileGrid = source.getTileGridForProjection(projection);
+    const extent = geometry.getExtent();
+    const zMin = Math.max(minZoom, tileGrid.getMinZoom());
+    const zMax = Math.min(maxZoom, tileGrid.getMaxZoom());
+
+    for (let z = zMin; z <= zMax; z++) {
+      const tileRange = tileGrid.getTileRangeForExtentAndZ(extent, z);
+      for (let x = tileRange.minX; x <= tileRange.maxX; x++) {
+        for (let y = tileRange.minY; y <= tileRange.maxY; y++) {
+          if (geometry.intersectsExtent(tileGrid.getTileCoordExtent([z, x, y]))) {
+            yield [z, x, y];
+          }
+        }
+      }
+    }
+  }
+
   buildQueue(
-    map: Map,
+    map: OLMap,
     activeLayer: PrefetchTileLayer | null,
     backgroundLayers: BackgroundLayerEntry[],
     nextNavLayer: PrefetchTileLayer | null,
     nextTargets: PrefetchTarget[],
-    categoryPriorities: Record<PrefetchCategoryKey, number>,
+    categoryPriorities: PrefetchCategoryPriorities,
     stats: PrefetchStats,
   ): PrefetchTask[] {
     const queue: PrefetchTask[] = [];
-    const seenTiles = new Set<string>();
 
     const nextTargetsKey =
-      nextTargets.length > 0
-        ? nextTargets.map((t) => `${t.center[0]}|${t.center[1]}|${t.zoom}`).join(';')
-        : null;
+      nextTargets.length > 0 ? nextTargets.map((t) => JSON.stringify(t)).join(';') : null;
     const preserveNextCounts =
       nextTargetsKey !== null && nextTargetsKey === this.lastNextTargetsKey_;
     const prevNextNavPrimary = preserveNextCounts
@@ -278,112 +734,27 @@ class PrefetchPlanner {
 
     stats.resetQueuedCounts();
 
-    const view = map.getView();
-    if (!view || !view.isDef()) {
-      return queue;
-    }
-
-    const mapSize = map.getSize();
-    if (!mapSize) {
-      return queue;
-    }
-
-    const viewState = view.getState();
-    const viewExtent = getForViewAndSize(
-      viewState.center,
-      viewState.resolution,
-      viewState.rotation,
-      mapSize,
+    const context = this.createPlanContext_(
+      map,
+      activeLayer,
+      backgroundLayers,
+      nextNavLayer,
+      nextTargets,
+      categoryPriorities,
     );
-
-    const zoom = view.getZoom();
-    if (zoom === undefined) {
+    if (!context) {
       return queue;
     }
-    const z = Math.round(zoom);
-    const projection = view.getProjection();
-    const pixelRatio =
-      (map as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1;
-
-    const ctx: PrefetchPlannerContext = { queue, seenTiles, pixelRatio, stats };
-
-    if (activeLayer) {
-      this.enqueueSpatialBuffer_(
-        ctx,
-        activeLayer,
-        viewExtent,
-        z,
-        projection,
-        categoryPriorities[PrefetchCategory.SPATIAL_ACTIVE],
-        PrefetchCategory.SPATIAL_ACTIVE,
-      );
-    }
-
-    for (const entry of backgroundLayers) {
-      if (entry.layer === activeLayer) {
-        continue;
-      }
-      const subPriority = entry.priority * 0.001;
-      this.enqueueViewportTiles_(
-        ctx,
-        entry.layer,
-        viewExtent,
-        z,
-        projection,
-        categoryPriorities[PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT] + subPriority,
-        PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT,
-      );
-    }
-
-    // Enqueue each next target in order. Later targets get a small priority
-    // offset so target[0] tiles are always loaded before target[1], etc.
-    for (let i = 0; i < nextTargets.length; i++) {
-      const nextTarget = nextTargets[i];
-      const targetOffset = i * 0.1;
-      const nextZ = Math.round(nextTarget.zoom);
-      const nextResolution = view.getResolutionForZoom(nextTarget.zoom);
-      const nextExtent = getForViewAndSize(nextTarget.center, nextResolution, 0, mapSize);
 
-      // Primary layer: fixed, independent of which layer is currently active.
-      if (nextNavLayer) {
-        this.enqueueViewportTiles_(
-          ctx,
-          nextNavLayer,
-          nextExtent,
-          nextZ,
-          projection,
-          categoryPriorities[PrefetchCategory.NEXT_NAV_PRIMARY] + targetOffset,
-          PrefetchCategory.NEXT_NAV_PRIMARY,
-        );
-        this.enqueueSpatialBuffer_(
-          ctx,
-          nextNavLayer,
-          nextExtent,
-          nextZ,
-          projection,
-          categoryPriorities[PrefetchCategory.NEXT_NAV_PRIMARY] + targetOffset,
-          PrefetchCategory.NEXT_NAV_PRIMARY,
-        );
-      }
-
-      for (const entry of backgroundLayers) {
-        if (entry.layer === activeLayer || entry.layer === nextNavLayer) {
-          continue;
-        }
-        const subPriority = entry.priority * 0.001;
-        this.enqueueViewportTiles_(
-          ctx,
-          entry.layer,
-          nextExtent,
-          nextZ,
-          projection,
-          categoryPriorities[PrefetchCategory.NEXT_NAV_BACKGROUND] +
-            targetOffset +
-            subPriority,
-          PrefetchCategory.NEXT_NAV_BACKGROUND,
-        );
-      }
-    }
+    // Viewport strategies first, so their tiles win ties with next-nav ones.
+    this.enqueuePlanned_(
+      this.createContext_(map, queue, new Set<string>(), stats),
+      context,
+      [
+        ...this.getStrategiesForPhase_('viewport'),
+        ...this.getStrategiesForPhase_('nextNav'),
+      ],
+    );
 
     if (nextTargets.length === 0) {
       this.lastNextTargetsKey_ = null;
@@ -402,67 +773,131 @@ class PrefetchPlanner {
       }
     }
 
-    queue.sort((a, b) => a.priority - b.priority);
+    queue.sort(this.taskComparator_);
     return queue;
   }
 
-  private enqueueViewportTiles_(
-    ctx: PrefetchPlannerContext,
-    layer: PrefetchTileLayer,
-    extent: Extent,
-    z: number,
-    projection: Projection,
-    priority: number,
-    category: PrefetchCategoryKey,
-  ): void {
-    const source = layer.getSource() as TileSource | null;
-    if (!source) {
-      return;
-    }
+  private getStrategiesForPhase_(phase: PrefetchPlanPhase): PrefetchPlannerStrategy[] {
+    return this.strategies_.filter((s) => (s.phase ?? 'viewport') === phase);
+  }
 
-    const tileGrid = source.getTileGridForProjection(projection);
-    const tileRange = tileGrid.getTileRangeForExtentAndZ(extent, z);
+  /**
+   * What strategies plan from, or null while the map has no usable view.
+   */
+  private createPlanContext_(
+    map: OLMap,
+    activeLayer: PrefetchTileLayer | null,
+    backgroundLayers: BackgroundLayerEntry[],
+    nextNavLayer: PrefetchTileLayer | null,
+    nextTargets: PrefetchTarget[],
+    categoryPriorities: PrefetchCategoryPriorities,
+  ): PrefetchPlanContext | null {
+    const view = map.getView();
+    if (!view || !view.isDef()) return null;
+    const mapSize = map.getSize();
+    if (!mapSize) return null;
+    const zoom = view.getZoom();
+    if (zoom === undefined) return null;
 
-    for (let x = tileRange.minX; x <= tileRange.maxX; x++) {
-      for (let y = tileRange.minY; y <= tileRange.maxY; y++) {
-        this.enqueueTile_(ctx, layer, source, [z, x, y], projection, priority, category);
-      }
-    }
+    const { center, resolution, rotation } = view.getState();
+    return {
+      map,
+      view,
+      projection: view.getProjection(),
+      mapSize,
+      center,
+      resolution,
+      rotation,
+      zoom,
+      viewExtent: getForViewAndSize(center, resolution, rotation, mapSize),
+      activeLayer,
+      backgroundLayers,
+      nextNavLayer,
+      nextTargets,
+      categoryPriorities,
+      panVelocity: this.panVelocity_,
+    };
+  }
+
+  private createContext_(
+    map: OLMap,
+    queue: PrefetchTask[],
+    seenTiles: Set<string>,
+    stats: PrefetchStats,
+  ): PrefetchPlannerContext {
+    return {
+      queue,
+      seenTiles,
+      pixelRatio:
+        (map as unknown as { getPixelRatio?: () => number }).getPixelRatio?.() ?? 1,
+      stats,
+      focus: null,
+      target: null,
+    };
   }
 
-  private enqueueSpatialBuffer_(
+  /**
+   * Run the strategies and enqueue their tiles.  A tile planned more than once
+   * keeps its most urgent descriptor; on equal priority the first one wins.
+   * A job the tile was planned for by any strategy is kept.
+   */
+  private enqueuePlanned_(
     ctx: PrefetchPlannerContext,
-    layer: PrefetchTileLayer,
-    viewExtent: Extent,
-    z: number,
-    projection: Projection,
-    priority: number,
-    category: PrefetchCategoryKey,
+    context: PrefetchPlanContext,
+    strategies: PrefetchPlannerStrategy[],
   ): void {
-    const source = layer.getSource() as TileSource | null;
-    if (!source) {
-      return;
+    const planned = new Map<string, PrefetchTaskDescriptor>();
+    // Phase of the strategy each kept descriptor comes from.
+    const phases = new Map<string, PrefetchPlanPhase>();
+    for (const strategy of strategies) {
+      for (const descriptor of strategy.plan(context)) {
+        const key = getTileKey(descriptor.layer, descriptor.tileCoord);
+        const other = planned.get(key);
+        if (!other || descriptor.priority < other.priority) {
+          planned.set(
+            key,
+            other?.job && !descriptor.job
+              ? { ...descriptor, job: other.job }
+              : descriptor,
+          );
+          phases.set(key, strategy.phase ?? 'viewport');
+        } else if (descriptor.job && !other.job) {
+          planned.set(key, { ...other, job: descriptor.job });
+        }
+      }
     }
 
-    const tileGrid = source.getTileGridForProjection(projection);
-
-    const extentWidth = viewExtent[2] - viewExtent[0];
-    const extentHeight = viewExtent[3] - viewExtent[1];
-    const bufferX = (extentWidth * (this.spatialBufferFactor_ - 1)) / 2;
-    const bufferY = (extentHeight * (this.spatialBufferFactor_ - 1)) / 2;
-    const bufferValue = Math.max(bufferX, bufferY);
-
-    const bufferedExtent = bufferExtent(viewExtent, bufferValue);
-    const bufferedTileRange = tileGrid.getTileRangeForExtentAndZ(bufferedExtent, z);
-    const viewportTileRange = tileGrid.getTileRangeForExtentAndZ(viewExtent, z);
-
-    for (let x = bufferedTileRange.minX; x <= bufferedTileRange.maxX; x++) {
-      for (let y = bufferedTileRange.minY; y <= bufferedTileRange.maxY; y++) {
-        if (viewportTileRange.containsXY(x, y)) {
-          continue;
+    // Tasks are ordered outward from the view centre, or their target's centre.
+    const targetCenters = new Map<PrefetchTarget, Coordinate | null>();
+    for (const [key, descriptor] of planned) {
+      const source = descriptor.layer.getSource() as TileSource | null;
+      if (!source) {
+        continue;
+      }
+      ctx.phase = phases.get(key);
+      const target = descriptor.target ?? null;
+      ctx.target = target;
+      ctx.job = descriptor.job;
+      ctx.focus = context.center;
+      if (target) {
+        let center = targetCenters.get(target);
+        if (center === undefined) {
+          center =
+            resolveTargetView(context.view, target, context.mapSize)?.center ?? null;
+          targetCenters.set(target, center);
         }
-        this.enqueueTile_(ctx, layer, source, [z, x, y], projection, priority, category);
+        ctx.focus = center;
       }
+      this.enqueueTile_(
+        ctx,
+        descriptor.layer,
+        source,
+        descriptor.tileCoord,
+        context.projection,
+        descriptor.priority,
+        descriptor.category,
+        descriptor.viewport ?? false,
+      );
     }
   }
 
@@ -473,10 +908,11 @@ class PrefetchPlanner {
     tileCoord: TileCoord,
     projection: Projection,
     priority: number,
-    category: PrefetchCategoryKey,
+    category: PrefetchCategoryKey | CustomCategoryKey,
+    viewport = false,
+    knownDistance?: number,
   ): void {
-    const layerKey = getUid(layer);
-    const tileKey = `${layerKey}/${tileCoord[0]}/${tileCoord[1]}/${tileCoord[2]}`;
+    const tileKey = getTileKey(layer, tileCoord);
 
     if (ctx.seenTiles.has(tileKey)) {
       return;
@@ -501,20 +937,47 @@ class PrefetchPlanner {
     }
 
     const state = tile.getState();
-    if (state === TileState.LOADED || state === TileState.LOADING) {
+    const stored =
+      state === TileState.IDLE &&
+      !!this.persistentCache_?.isTileStored(layer, tileCoord, ctx.pixelRatio, projection);
+
+    // Only the target's own viewport counts towards its readiness, not its buffer.
+    if (ctx.target && viewport) {
+      ctx.stats.recordJobTile(ctx.target, tileKey, layer, tile, stored);
+    } else if (ctx.job) {
+      ctx.stats.recordJobTile(ctx.job, tileKey, layer, tile, stored);
+    }
+
+    if (this.retryPolicy_?.isBlocked(tileKey)) {
       return;
     }
 
+    if (stored || state === TileState.LOADED || state === TileState.LOADING) {
+      return;
+    }
+
+    let distance = knownDistance ?? 0;
+    if (knownDistance === undefined && ctx.focus) {
+      const tileGrid = source.getTileGridForProjection(projection);
+      const tileCenter = getCenter(tileGrid.getTileCoordExtent(tileCoord));
+      distance =
+        Math.sqrt(
+          (tileCenter[0] - ctx.focus[0]) ** 2 + (tileCenter[1] - ctx.focus[1]) ** 2,
+        ) / tileGrid.getResolution(tileCoord[0]);
+    }
+
     ctx.queue.push({
       id: tileKey,
       priority,
+      distance,
       category,
       layer,
       tileCoord,
       timestamp: Date.now(),
+      target: ctx.target ?? undefined,
     });
 
-    ctx.stats.recordQueued(category);
+    ctx.stats.recordQueued(category, ctx.phase ?? 'nextNav');
   }
 }
 
@@ -1,18 +1,89 @@
 /**
  * @module ol/prefetch/PrefetchStats
  */
-import { PrefetchCategory, createInitialCategoryCounts } from './PrefetchConstants';
-import type { PrefetchCategoryKey } from './PrefetchConstants';
+import TileState from 'ol/TileState.js';
+import CategoryRegistry from './CategoryRegistry';
+import {
+  PrefetchCategory,
+  createInitialCategoryCounts,
+  isBuiltInCategory,
+} from './PrefetchConstants';
+import type { CustomCategoryKey, PrefetchCategoryKey } from './PrefetchConstants';
+import type Tile from 'ol/Tile.js';
 import type {
+  PrefetchBudgetStats,
+  PrefetchCategoryPriorities,
+  PrefetchConcurrencyStats,
+  PrefetchCircuitStats,
   PrefetchError,
+  PrefetchPlanPhase,
   PrefetchStats as PrefetchStatsSnapshot,
   PrefetchCategoryStats,
   PrefetchTarget,
+  PrefetchTargetProgress,
+  PrefetchTileLayer,
 } from './PrefetchTypes';
 
+type ProgressField = 'queued' | 'loading' | 'loaded' | 'errors';
+
+/** Tile counts of one layer of a job, kept up to date as tiles change. */
+interface LayerCounts extends Record<ProgressField, number> {
+  layer: PrefetchTileLayer;
+  total: number;
+}
+
+interface JobTile {
+  /** Counts of the tile's layer; null once the tile no longer counts. */
+  counts: LayerCounts | null;
+  /** The tile is in the persistent cache, so it needs no prefetch. */
+  stored: boolean;
+  /** Progress counter the tile's last seen state falls under. */
+  field: ProgressField;
+}
+
+interface JobProgress {
+  /** Planned tiles by tile key. */
+  tiles: Map<string, JobTile>;
+  layers: Map<PrefetchTileLayer, LayerCounts>;
+}
+
+function setJobTileField(entry: JobTile, field: ProgressField): void {
+  if (entry.counts) {
+    entry.counts[entry.field]--;
+    entry.counts[field]++;
+  }
+  entry.field = field;
+}
+
+function removeJobTile(entry: JobTile): void {
+  if (entry.counts) {
+    entry.counts.total--;
+    entry.counts[entry.field]--;
+    entry.counts = null;
+  }
+}
+
+/**
+ * Progress counter a tile state falls under.  Empty tiles have nothing to
+ * load and count as loaded, as do idle tiles held in the persistent cache.
+ */
+function getProgressField(state: number, stored: boolean): ProgressField {
+  switch (state) {
+    case TileState.LOADING:
+      return 'loading';
+    case TileState.LOADED:
+    case TileState.EMPTY:
+      return 'loaded';
+    case TileState.ERROR:
+      return 'errors';
+    default:
+      return stored ? 'loaded' : 'queued';
+  }
+}
+
 /**
- * Tracks prefetch statistics, per-category counts, error logs,
- * and notifies listeners on changes.
+ * Tracks prefetch statistics, per-category counts and error logs, and builds
+ * the snapshots the manager dispatches with its `stats` event.
  */
 class PrefetchStats {
   private loadedCount_ = 0;
@@ -21,9 +92,32 @@ class PrefetchStats {
   private categoryCounts_: Record<PrefetchCategoryKey, PrefetchCategoryStats> =
     createInitialCategoryCounts();
 
+  /** Counts of the custom categories, by key. */
+  private customCounts_: Map<CustomCategoryKey, PrefetchCategoryStats> = new Map();
+
+  /** Phase each custom category was last queued by; its counts reset with it. */
+  private customPhases_: Map<CustomCategoryKey, PrefetchPlanPhase> = new Map();
+
+  private categories_: CategoryRegistry;
+
   private errorLog_: PrefetchError[] = [];
 
-  private listeners_: Array<(stats: PrefetchStatsSnapshot) => void> = [];
+  /**
+   * Tiles planned per job - a next-navigation target (its viewport) or an
+   * area job - with their counts per layer.
+   */
+  private jobs_: WeakMap<object, JobProgress> = new WeakMap();
+
+  /** Job tiles of each unsettled tile, updated when the tile changes. */
+  private followedTiles_: WeakMap<Tile, Set<JobTile>> = new WeakMap();
+
+  /**
+   * @param categories Custom categories of the manager, counted alongside
+   * the built-in ones.
+   */
+  constructor(categories = new CategoryRegistry()) {
+    this.categories_ = categories;
+  }
 
   get categoryCounts(): Record<PrefetchCategoryKey, PrefetchCategoryStats> {
     return this.categoryCounts_;
@@ -34,86 +128,155 @@ class PrefetchStats {
       this.categoryCounts_[key as PrefetchCategoryKey].queued = 0;
       this.categoryCounts_[key as PrefetchCategoryKey].loading = 0;
     }
+    for (const counts of this.customCounts_.values()) {
+      counts.queued = 0;
+      counts.loading = 0;
+    }
   }
 
-  /** Reset only spatial + bg-viewport queued/loading counts. Next-nav counts are preserved. */
+  /**
+   * Reset only spatial, bg-viewport, time series, playback and viewport-planned
+   * custom category queued/loading counts.
+   * Next-nav counts are preserved.
+   */
   resetViewportCounts(): void {
     const viewportCategories: PrefetchCategoryKey[] = [
       PrefetchCategory.SPATIAL_ACTIVE,
       PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT,
       PrefetchCategory.BACKGROUND_LAYERS_BUFFER,
+      PrefetchCategory.TIME_SERIES,
+      PrefetchCategory.PLAYBACK,
     ];
-    for (const key of viewportCategories) {
-      this.categoryCounts_[key].queued = 0;
-      this.categoryCounts_[key].loading = 0;
+    for (const counts of [
+      ...viewportCategories.map((key) => this.categoryCounts_[key]),
+      ...this.getCustomCountsForPhase_('viewport'),
+    ]) {
+      counts.queued = 0;
+      counts.loading = 0;
     }
   }
 
-  /** Reset only next-nav queued/loading counts. Viewport counts are preserved. */
+  /**
+   * Reset only next-nav, route, area and next-nav-planned custom category
+   * queued/loading counts. Viewport counts are preserved.
+   */
   resetNextNavCounts(): void {
     const nextNavCategories: PrefetchCategoryKey[] = [
       PrefetchCategory.NEXT_NAV_PRIMARY,
       PrefetchCategory.NEXT_NAV_BACKGROUND,
+      PrefetchCategory.ROUTE,
+      PrefetchCategory.AREA,
     ];
-    for (const key of nextNavCategories) {
-      this.categoryCounts_[key].queued = 0;
-      this.categoryCounts_[key].loading = 0;
+    for (const counts of [
+      ...nextNavCategories.map((key) => this.categoryCounts_[key]),
+      ...this.getCustomCountsForPhase_('nextNav'),
+    ]) {
+      counts.queued = 0;
+      counts.loading = 0;
+    }
+  }
+
+  /**
+   * Counts of the custom categories last queued by the given phase.
+   */
+  private getCustomCountsForPhase_(phase: PrefetchPlanPhase): PrefetchCategoryStats[] {
+    return [...this.customCounts_]
+      .filter(([category]) => (this.customPhases_.get(category) ?? 'nextNav') === phase)
+      .map(([, counts]) => counts);
+  }
+
+  /**
+   * Counts of a custom category, created on first use.
+   */
+  private getCustomCounts_(category: CustomCategoryKey): PrefetchCategoryStats {
+    let counts = this.customCounts_.get(category);
+    if (!counts) {
+      counts = { queued: 0, loading: 0, loaded: 0, errors: 0 };
+      this.customCounts_.set(category, counts);
+    }
+    return counts;
+  }
+
+  /**
+   * Counts of a built-in or registered category.  Null for unknown
+   * categories.
+   */
+  private getCounts_(
+    category: PrefetchCategoryKey | CustomCategoryKey,
+  ): PrefetchCategoryStats | null {
+    if (isBuiltInCategory(category)) {
+      return this.categoryCounts_[category];
     }
+    return this.categories_.has(category) ? this.getCustomCounts_(category) : null;
   }
 
-  recordQueued(category: PrefetchCategoryKey): void {
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].queued++;
+  /**
+   * @param phase Phase that planned the task.  Counts of a custom category
+   * are reset with the phase it was last queued by.
+   */
+  recordQueued(
+    category: PrefetchCategoryKey | CustomCategoryKey,
+    phase: PrefetchPlanPhase = 'nextNav',
+  ): void {
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.queued++;
+      if (!isBuiltInCategory(category)) {
+        this.customPhases_.set(category, phase);
+      }
     }
   }
 
-  setQueuedCount(category: PrefetchCategoryKey, queued: number): void {
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].queued = queued;
+  setQueuedCount(
+    category: PrefetchCategoryKey | CustomCategoryKey,
+    queued: number,
+  ): void {
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.queued = queued;
     }
   }
 
-  recordLoadingStart(category: PrefetchCategoryKey): void {
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].loading++;
-      this.categoryCounts_[category].queued = Math.max(
-        0,
-        this.categoryCounts_[category].queued - 1,
-      );
+  recordLoadingStart(category: PrefetchCategoryKey | CustomCategoryKey): void {
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.loading++;
+      counts.queued = Math.max(0, counts.queued - 1);
     }
   }
 
-  recordLoadingEnd(category: PrefetchCategoryKey): void {
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].loading = Math.max(
-        0,
-        this.categoryCounts_[category].loading - 1,
-      );
+  recordLoadingEnd(category: PrefetchCategoryKey | CustomCategoryKey): void {
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.loading = Math.max(0, counts.loading - 1);
     }
   }
 
-  recordAlreadyLoaded(category: PrefetchCategoryKey): void {
+  recordAlreadyLoaded(category: PrefetchCategoryKey | CustomCategoryKey): void {
     this.loadedCount_++;
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].loaded++;
-      this.categoryCounts_[category].queued = Math.max(
-        0,
-        this.categoryCounts_[category].queued - 1,
-      );
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.loaded++;
+      counts.queued = Math.max(0, counts.queued - 1);
     }
   }
 
-  recordLoaded(category: PrefetchCategoryKey): void {
+  recordLoaded(category: PrefetchCategoryKey | CustomCategoryKey): void {
     this.loadedCount_++;
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].loaded++;
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.loaded++;
     }
   }
 
-  recordError(category: PrefetchCategoryKey, errorEntry: PrefetchError): void {
+  recordError(
+    category: PrefetchCategoryKey | CustomCategoryKey,
+    errorEntry: PrefetchError,
+  ): void {
     this.errorCount_++;
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].errors++;
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.errors++;
     }
     this.errorLog_.unshift(errorEntry);
     if (this.errorLog_.length > 50) {
@@ -121,18 +284,169 @@ class PrefetchStats {
     }
   }
 
-  recordEmpty(category: PrefetchCategoryKey): void {
-    if (this.categoryCounts_[category]) {
-      this.categoryCounts_[category].errors++;
+  recordEmpty(category: PrefetchCategoryKey | CustomCategoryKey): void {
+    const counts = this.getCounts_(category);
+    if (counts) {
+      counts.errors++;
+    }
+  }
+
+  /**
+   * Record a tile needed by a job (a target or area).  Only the tile key is
+   * kept; the tile's state is followed until it settles, and read again when
+   * the tile is recorded again.
+   */
+  recordJobTile(
+    job: object,
+    tileKey: string,
+    layer: PrefetchTileLayer,
+    tile: Tile,
+    stored = false,
+  ): void {
+    let progress = this.jobs_.get(job);
+    if (!progress) {
+      progress = { tiles: new Map(), layers: new Map() };
+      this.jobs_.set(job, progress);
+    }
+    let counts = progress.layers.get(layer);
+    if (!counts) {
+      counts = { layer, total: 0, queued: 0, loading: 0, loaded: 0, errors: 0 };
+      progress.layers.set(layer, counts);
+    }
+    const field = getProgressField(tile.getState(), stored);
+    let entry = progress.tiles.get(tileKey);
+    if (entry?.counts !== counts) {
+      if (entry) {
+        removeJobTile(entry);
+      }
+      entry = { counts, stored, field };
+      counts.total++;
+      counts[field]++;
+      progress.tiles.set(tileKey, entry);
+    } else {
+      entry.stored = stored;
+      setJobTileField(entry, field);
+    }
+    if (field === 'queued' || field === 'loading') {
+      this.followTile_(tile, entry);
+    }
+  }
+
+  /**
+   * Update job tiles as their tile changes, with one listener per tile that
+   * is removed once the tile has settled.
+   */
+  private followTile_(tile: Tile, entry: JobTile): void {
+    let entries = this.followedTiles_.get(tile);
+    if (!entries) {
+      const followed = new Set<JobTile>();
+      const onChange = () => {
+        const state = tile.getState();
+        for (const jobTile of followed) {
+          setJobTileField(jobTile, getProgressField(state, jobTile.stored));
+        }
+        if (state !== TileState.IDLE && state !== TileState.LOADING) {
+          tile.removeEventListener('change', onChange);
+          this.followedTiles_.delete(tile);
+        }
+      };
+      tile.addEventListener('change', onChange);
+      this.followedTiles_.set(tile, followed);
+      entries = followed;
+    }
+    entries.add(entry);
+  }
+
+  /**
+   * Forget job tiles of layers that are no longer prefetched for the jobs,
+   * e.g. after the next-nav layer changed.
+   */
+  retainJobLayers(jobs: object[], layers: Set<PrefetchTileLayer>): void {
+    for (const job of jobs) {
+      const progress = this.jobs_.get(job);
+      if (!progress || [...progress.layers.keys()].every((l) => layers.has(l))) {
+        continue;
+      }
+      for (const [key, entry] of progress.tiles) {
+        if (entry.counts && !layers.has(entry.counts.layer)) {
+          removeJobTile(entry);
+          progress.tiles.delete(key);
+        }
+      }
+      for (const layer of progress.layers.keys()) {
+        if (!layers.has(layer)) {
+          progress.layers.delete(layer);
+        }
+      }
     }
   }
 
+  /**
+   * Forget the tiles of a job that is done or cancelled.
+   */
+  forgetJob(job: object): void {
+    const progress = this.jobs_.get(job);
+    if (!progress) {
+      return;
+    }
+    for (const entry of progress.tiles.values()) {
+      removeJobTile(entry);
+    }
+    this.jobs_.delete(job);
+  }
+
+  /**
+   * Current progress of a job, optionally restricted to some layers.  Adds
+   * up the counts per layer, without visiting the tiles.
+   */
+  getJobProgress(job: object, layers?: PrefetchTileLayer[]): PrefetchTargetProgress {
+    const progress: PrefetchTargetProgress = {
+      total: 0,
+      queued: 0,
+      loading: 0,
+      loaded: 0,
+      errors: 0,
+      fraction: 1,
+      layers: [],
+    };
+    for (const counts of this.jobs_.get(job)?.layers.values() ?? []) {
+      const { layer, total, queued, loading, loaded, errors } = counts;
+      if (total === 0 || (layers && !layers.includes(layer))) continue;
+
+      progress.layers.push({
+        layerName: layer.get('name') || layer.get('label') || 'unknown',
+        total,
+        queued,
+        loading,
+        loaded,
+        errors,
+      });
+      progress.total += total;
+      progress.queued += queued;
+      progress.loading += loading;
+      progress.loaded += loaded;
+      progress.errors += errors;
+    }
+    if (progress.total > 0) {
+      progress.fraction = progress.loaded / progress.total;
+    }
+    return progress;
+  }
+
   getSnapshot(
     queueLength: number,
     loadingSize: number,
     paused: boolean,
     nextTargets: PrefetchTarget[],
-    categoryPriorities: Record<PrefetchCategoryKey, number>,
+    categoryPriorities: PrefetchCategoryPriorities,
+    circuits: Record<string, PrefetchCircuitStats> = {},
+    budget: PrefetchBudgetStats | null = null,
+    concurrency: PrefetchConcurrencyStats = {
+      limit: 0,
+      adaptive: false,
+      networkConstrained: false,
+    },
+    areas: Array<{ id: number; progress: PrefetchTargetProgress }> = [],
   ): PrefetchStatsSnapshot {
     return {
       queued: queueLength,
@@ -149,59 +463,32 @@ class PrefetchStats {
       nextNavBackground: {
         ...this.categoryCounts_[PrefetchCategory.NEXT_NAV_BACKGROUND],
       },
-      nextTargets: nextTargets.map((t) => ({ center: t.center, zoom: t.zoom })),
+      route: { ...this.categoryCounts_[PrefetchCategory.ROUTE] },
+      area: { ...this.categoryCounts_[PrefetchCategory.AREA] },
+      timeSeries: { ...this.categoryCounts_[PrefetchCategory.TIME_SERIES] },
+      playback: { ...this.categoryCounts_[PrefetchCategory.PLAYBACK] },
+      custom: Object.fromEntries(
+        this.categories_
+          .getKeys()
+          .map((key) => [
+            key,
+            { label: this.categories_.getName(key), ...this.getCustomCounts_(key) },
+          ]),
+      ),
+      nextTargets: nextTargets.map((t) => ({
+        ...t,
+        progress: this.getJobProgress(t),
+      })),
       recentErrors: this.errorLog_.slice(),
       categoryPriorities: { ...categoryPriorities },
+      circuits,
+      budget,
+      concurrency,
+      areas,
     };
   }
 
-  onStats(callback: (stats: PrefetchStatsSnapshot) => void): void {
-    this.listeners_.push(callback);
-  }
-
-  /**
-   * Register a one-shot callback that fires as soon as `queued + loading === 0`
-   * (i.e. the prefetch engine has nothing left to do).  If it is already idle at
-   * the time of the call the callback fires on the very next `notify()` tick.
-   *
-   * @param callback  Called once, then automatically removed.
-   * @param maxWaitMs Optional safety timeout (default 60 s).  The callback is
-   *                  invoked even if the queue never fully drains (e.g. network
-   *                  errors keep some tiles from loading).
-   */
-  onIdle(callback: () => void, maxWaitMs = 60_000): void {
-    let fired = false;
-    let timer: ReturnType<typeof setTimeout> | null = null;
-
-    const fire = () => {
-      if (fired) return;
-      fired = true;
-      if (timer !== null) { clearTimeout(timer); timer = null; }
-      // Remove this listener from the list
-      const idx = this.listeners_.indexOf(listener);
-      if (idx >= 0) this.listeners_.splice(idx, 1);
-      callback();
-    };
-
-    const listener = (stats: PrefetchStatsSnapshot) => {
-      if (stats.queued === 0 && stats.loading === 0) fire();
-    };
-
-    this.listeners_.push(listener);
-    timer = setTimeout(fire, maxWaitMs);
-  }
-
-  notify(stats: PrefetchStatsSnapshot): void {
-    // Snapshot the array before iterating - listeners may remove themselves
-    // (e.g. onIdle callbacks) during iteration.
-    const cbs = this.listeners_.slice();
-    for (const cb of cbs) {
-      cb(stats);
-    }
-  }
-
   dispose(): void {
-    this.listeners_ = [];
     this.errorLog_ = [];
   }
 }
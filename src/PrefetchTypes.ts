@@ -2,15 +2,258 @@
  * @module ol/prefetch/PrefetchTypes
  */
 import type Map from 'ol/Map.js';
+import type View from 'ol/View.js';
 import type BaseTileLayer from 'ol/layer/BaseTile.js';
 import type TileSource from 'ol/source/Tile.js';
+import type TileImage from 'ol/source/TileImage.js';
+import type Projection from 'ol/proj/Projection.js';
 import type { Coordinate } from 'ol/coordinate.js';
+import type { Extent } from 'ol/extent.js';
+import type { Size } from 'ol/size.js';
 import type { TileCoord } from 'ol/tilecoord.js';
-import type { PrefetchCategoryKey } from './PrefetchConstants';
+import type {
+  CircuitStateKey,
+  CustomCategoryKey,
+  DownloadStateKey,
+  PrefetchCategoryKey,
+} from './PrefetchConstants';
 
+/**
+ * A view the user is expected to navigate to next.  Either `center` with
+ * `zoom` or `resolution`, or an `extent` to fit.
+ */
 export interface PrefetchTarget {
-  center: Coordinate;
-  zoom: number;
+  center?: Coordinate;
+  zoom?: number;
+  /** Takes precedence over `zoom`. */
+  resolution?: number;
+  /** View rotation in radians on arrival.  Defaults to 0. */
+  rotation?: number;
+  /**
+   * Extent the map will be fit to (`View#fit` semantics); `center` and `zoom`
+   * are then ignored and `resolution` overrides the fitted resolution.
+   */
+  extent?: Extent;
+  /** Padding (top, right, bottom, left) in pixels used when fitting `extent`. */
+  padding?: [number, number, number, number];
+  /** Viewport size in pixels on arrival.  Defaults to the current map size. */
+  size?: Size;
+}
+
+export interface PrefetchPathOptions {
+  /** Total animation duration in ms, as passed to `view.animate`.  Defaults to 1000. */
+  duration?: number;
+  /** Easing applied to each segment.  Defaults to `inAndOut`, as `view.animate`. */
+  easing?: (t: number) => number;
+  /**
+   * Number of views sampled along the whole path, endpoints included.
+   * Defaults to one every 100 ms of `duration`.
+   */
+  samples?: number;
+}
+
+/** A value of a time dimension, e.g. an ISO 8601 date. */
+export type PrefetchTimeValue = string | number;
+
+/**
+ * Point a tile source at a time value, e.g. with `source.setUrl(...)`.  It is
+ * called on `ol/source/TileImage` copies of the layer's source, one per time.
+ */
+export type PrefetchTimeDimension = (source: TileImage, time: PrefetchTimeValue) => void;
+
+export interface PrefetchTimeSeriesOptions {
+  /** The layer showing the series.  Its source is the template for every time. */
+  layer: PrefetchTileLayer;
+  /** Time values, in order. */
+  times: PrefetchTimeValue[];
+  /**
+   * How a time is applied: the name of the URL query parameter carrying it,
+   * or a function that updates the source.  Defaults to `'TIME'`, the WMS
+   * time dimension.
+   */
+  dimension?: string | PrefetchTimeDimension;
+  /** Time shown initially.  Defaults to the first one. */
+  time?: PrefetchTimeValue;
+  /** Number of earlier times to prefetch.  Defaults to 2. */
+  before?: number;
+  /** Number of later times to prefetch.  Defaults to 2. */
+  after?: number;
+}
+
+/** An animation frame: a layer, or a time of the manager's time series. */
+export type PrefetchPlaybackFrame = PrefetchTileLayer | PrefetchTimeValue;
+
+export interface PrefetchPlaybackOptions {
+  /** Frames in playing order. */
+  frames: PrefetchPlaybackFrame[];
+  /** Frames per second.  Defaults to 2. */
+  frameRate?: number;
+  /** Number of frames after the current one to prefetch.  Defaults to 5. */
+  lookAhead?: number;
+  /** Continue with the first frame after the last one.  Defaults to false. */
+  loop?: boolean;
+}
+
+export interface PrefetchRouteOptions {
+  /** Full corridor width around the route.  Defaults to 256. */
+  width?: number;
+  /** Whether `width` is in pixels (at each zoom) or map units.  Defaults to 'pixels'. */
+  widthUnits?: 'pixels' | 'map';
+  /** Lowest tile grid zoom to prefetch.  Defaults to the current view zoom. */
+  minZoom?: number;
+  /** Highest tile grid zoom to prefetch.  Defaults to `minZoom`. */
+  maxZoom?: number;
+  /** Layers to prefetch, in priority order.  Defaults to the active layer. */
+  layers?: PrefetchTileLayer[];
+  /** Current position; tiles are ordered by distance along the route from it. */
+  position?: Coordinate | null;
+  /**
+   * Minimum time in ms between corridor replans as `setRoutePosition` moves
+   * the position.  Defaults to 1000.
+   */
+  replanInterval?: number;
+}
+
+/** Priority of each built-in category, and of registered custom ones. */
+export type PrefetchCategoryPriorities = Record<PrefetchCategoryKey, number> &
+  Partial<Record<CustomCategoryKey, number>>;
+
+export interface PrefetchCategoryDefinition {
+  /** Display name, e.g. in stats panels and error entries. */
+  label: string;
+  /** Default priority; lower loads first.  Built-in ones run from 0.5 to 7. */
+  priority: number;
+  /** Hold the category's tasks back while the user pans or zooms.  Defaults to true. */
+  pausesDuringInteraction?: boolean;
+}
+
+export interface PrefetchAreaOptions {
+  /** Lowest tile grid zoom to prefetch.  Defaults to the current view zoom. */
+  minZoom?: number;
+  /** Highest tile grid zoom to prefetch.  Defaults to `minZoom`. */
+  maxZoom?: number;
+  /** Layers to prefetch, in priority order.  Defaults to the active layer. */
+  layers?: PrefetchTileLayer[];
+  /** Task priority; lower loads first.  Defaults to the category's priority. */
+  priority?: number;
+  /** Category to plan the tiles under, e.g. a registered custom one.  Defaults to `area`. */
+  category?: PrefetchCategoryKey | CustomCategoryKey;
+}
+
+/**
+ * Persistent key/value store for tile data, keyed by tile URL.
+ */
+export interface PrefetchTileStorage {
+  get(key: string): Promise<Blob | null>;
+  has(key: string): Promise<boolean>;
+  put(key: string, data: Blob): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface PrefetchPersistentCacheOptions {
+  storage: PrefetchTileStorage;
+  /** How long (ms) a stored tile is served before it is fetched again.  Defaults to 7 days. */
+  ttl?: number;
+  /**
+   * Total size (bytes) of stored tiles.  The least recently stored tiles are
+   * evicted beyond it.  Defaults to 100 MB.
+   */
+  maxBytes?: number;
+}
+
+export interface PrefetchCacheGuardOptions {
+  /**
+   * What to do when the tiles planned for a source do not fit its tile cache:
+   * `'warn'` only fires `cacheoverflow`, `'clamp'` also drops the lowest
+   * priority tasks that would not fit.  Defaults to `'warn'`.
+   */
+  overflow?: 'warn' | 'clamp';
+  /**
+   * Raise a source's cache size to fit the plan, up to this many tiles,
+   * before it counts as overflowing.  Cache sizes are left alone when omitted.
+   */
+  maxCacheSize?: number;
+  /**
+   * Keep loaded next-nav tiles in their source's cache until the target is
+   * visited or cleared.  Defaults to false.
+   */
+  pinNextNav?: boolean;
+}
+
+export interface PrefetchCacheOverflow {
+  source: TileSource;
+  /** Layers with tasks for the source. */
+  layers: PrefetchTileLayer[];
+  /** Queued and pinned tiles, plus the tiles the map currently renders. */
+  planned: number;
+  /** The source's tile cache size. */
+  capacity: number;
+}
+
+export interface PrefetchFetchRequestOptions {
+  headers?: HeadersInit;
+  credentials?: RequestCredentials;
+}
+
+export interface PrefetchFetchLoaderOptions extends PrefetchFetchRequestOptions {
+  /**
+   * Headers and credentials for a layer, merged over the shared ones.  Return
+   * null to prefetch the layer through its source's `tileLoadFunction`.
+   */
+  layerOptions?: (layer: PrefetchTileLayer) => PrefetchFetchRequestOptions | null;
+  /**
+   * Token for a layer's requests.  Called with `refresh` true after a request
+   * was answered with 401 or 403; the request is then retried once.  Tokens
+   * are cached per layer until refreshed.
+   */
+  getToken?: (layer: PrefetchTileLayer, refresh: boolean) => Promise<string | null>;
+  /**
+   * Send the token as a bearer `Authorization` header, or append it as is to
+   * the URL query (e.g. a SAS token).  Defaults to 'header'.
+   */
+  tokenPlacement?: 'header' | 'query';
+}
+
+export interface PrefetchRegionOptions {
+  /** Lowest tile grid zoom to download.  Defaults to the current view zoom. */
+  minZoom?: number;
+  /** Highest tile grid zoom to download.  Defaults to `minZoom`. */
+  maxZoom?: number;
+  /** Layers to download.  Defaults to the active layer. */
+  layers?: PrefetchTileLayer[];
+}
+
+export interface PrefetchDownloadOptions extends PrefetchRegionOptions {
+  storage: PrefetchTileStorage;
+  /** Concurrent requests.  Defaults to 4. */
+  concurrency?: number;
+  /** Passed to `fetch` for every tile request. */
+  fetchOptions?: RequestInit;
+}
+
+export interface PrefetchDownloadProgress {
+  state: DownloadStateKey;
+  /** Tiles found so far; final once `counting` is false. */
+  total: number;
+  /** Whether the region's tiles are still being enumerated. */
+  counting: boolean;
+  /** Tiles fetched and stored. */
+  stored: number;
+  /** Tiles that were already in storage. */
+  skipped: number;
+  /** Tiles that failed; resuming the download retries them. */
+  failed: number;
+  bytes: number;
+}
+
+/** A prefetch load in progress, as seen by load functions. */
+export interface PrefetchTileLoad {
+  category: PrefetchCategoryKey | CustomCategoryKey;
+  /** The layer the tile is prefetched for. */
+  layer: PrefetchTileLayer;
+  /** Aborted when the load is abandoned. */
+  signal: AbortSignal;
 }
 
 export type PrefetchTileLayer = BaseTileLayer<TileSource, any>;
@@ -18,15 +261,100 @@ export type PrefetchTileLayer = BaseTileLayer<TileSource, any>;
 export interface BackgroundLayerEntry {
   layer: PrefetchTileLayer;
   priority: number;
+  /**
+   * Maximum number of concurrent prefetches for this layer.  Overridden by
+   * `setLayerMaxConcurrent`.  Unlimited (bounded only by the global limit)
+   * when omitted.
+   */
+  maxConcurrent?: number;
 }
 
 export interface PrefetchTask {
   id: string;
   priority: number;
-  category: PrefetchCategoryKey;
+  /**
+   * Distance in pixels (at the tile's zoom) from the tile centre to the view
+   * centre, or to the target centre for next-nav tasks.  Used to break ties
+   * between tasks of equal priority.
+   */
+  distance: number;
+  category: PrefetchCategoryKey | CustomCategoryKey;
   layer: PrefetchTileLayer;
   tileCoord: TileCoord;
   timestamp: number;
+  /** The next-navigation target this task was planned for, if any. */
+  target?: PrefetchTarget;
+  /** The task is a frame of the path set by `prefetchPath`. */
+  path?: boolean;
+  /** Id of the `prefetchArea` job the task was planned for, if any. */
+  areaJob?: number;
+}
+
+/**
+ * A tile a planner strategy wants prefetched.  The planner drops tiles that
+ * are loaded, loading, stored or blocked by the retry policy, and keeps the
+ * most urgent descriptor when strategies plan the same tile.
+ */
+export interface PrefetchTaskDescriptor {
+  layer: PrefetchTileLayer;
+  tileCoord: TileCoord;
+  /** Lower loads first. */
+  priority: number;
+  category: PrefetchCategoryKey | CustomCategoryKey;
+  /**
+   * The next-navigation target the tile is planned for.  Ties are then broken
+   * by distance to the target centre instead of the view centre.
+   */
+  target?: PrefetchTarget;
+  /** The tile is in the target's own viewport, so it counts towards its readiness. */
+  viewport?: boolean;
+  /** Job the tile counts towards in the stats, e.g. a playback frame. */
+  job?: object;
+}
+
+/** What a planner strategy gets to plan from. */
+export interface PrefetchPlanContext {
+  map: Map;
+  view: View;
+  projection: Projection;
+  mapSize: Size;
+  center: Coordinate;
+  resolution: number;
+  rotation: number;
+  /** Fractional view zoom. */
+  zoom: number;
+  /** Extent of the current viewport. */
+  viewExtent: Extent;
+  /** Null if there is none, or it is excluded. */
+  activeLayer: PrefetchTileLayer | null;
+  backgroundLayers: BackgroundLayerEntry[];
+  nextNavLayer: PrefetchTileLayer | null;
+  nextTargets: PrefetchTarget[];
+  categoryPriorities: PrefetchCategoryPriorities;
+  /** Current pan vector (map units per ms) with `directionalPrefetch`, else null. */
+  panVelocity: Coordinate | null;
+}
+
+/**
+ * Queue portion a strategy plans for.  `viewport` tasks are replanned after
+ * every pan or zoom, `nextNav` tasks when next targets or layers change.
+ */
+export type PrefetchPlanPhase = 'viewport' | 'nextNav';
+
+/**
+ * Plans prefetch tiles.  The built-in spatial, background, zoom pyramid and
+ * next-navigation planning are strategies too; see `PlannerStrategies`.
+ */
+export interface PrefetchPlannerStrategy {
+  /** Identifies the strategy; adding one with a taken name replaces it. */
+  name: string;
+  /**
+   * `viewport` strategies are replanned after every pan or zoom.  Tasks of
+   * `nextNav` strategies are planned when next targets or layers change and
+   * stay queued across pans and zooms.  Defaults to `viewport`.
+   */
+  phase?: PrefetchPlanPhase;
+  plan(context: PrefetchPlanContext): PrefetchTaskDescriptor[];
 }
 
 export interface PrefetchCategoryStats {
@@ -36,12 +364,148 @@ export interface PrefetchCategoryStats {
   errors: number;
 }
 
+/** Tile counts for one layer at a next-navigation target. */
+export interface PrefetchTargetLayerProgress {
+  layerName: string;
+  /** Tiles covering the target's viewport. */
+  total: number;
+  queued: number;
+  loading: number;
+  loaded: number;
+  errors: number;
+}
+
+/** Progress of a next-navigation target or area job across all of its layers. */
+export interface PrefetchTargetProgress {
+  total: number;
+  queued: number;
+  loading: number;
+  loaded: number;
+  errors: number;
+  /** `loaded / total`, or 1 when the target needs no tiles. */
+  fraction: number;
+  layers: PrefetchTargetLayerProgress[];
+}
+
+export interface PrefetchTargetReadyOptions {
+  /** Only consider these layers.  Defaults to every layer planned for the target. */
+  layers?: PrefetchTileLayer[];
+  /** Fraction of tiles that must be loaded, 0-1.  Defaults to 1. */
+  minFraction?: number;
+  /** Reject after this many ms.  Defaults to no timeout. */
+  timeout?: number;
+}
+
 export interface PrefetchError {
   tileCoord: TileCoord;
   category: string;
   layerName: string;
   reason: string;
   timestamp: number;
+  /** Number of failed attempts for this tile so far. */
+  attempt: number;
+  /** True if the retry policy gave up on this tile for good. */
+  gaveUp: boolean;
+}
+
+export interface PrefetchRetryOptions {
+  /** Total attempts per tile, including the first one.  Defaults to 3. */
+  maxAttempts?: number;
+  /** Cool-down (ms) after the first failure, doubled per attempt.  Defaults to 1000. */
+  baseDelay?: number;
+  /** Random spread applied to each cool-down, as a fraction (0-1).  Defaults to 0.2. */
+  jitter?: number;
+  /**
+   * Categories whose failed tiles are retried.  Failed tiles in other
+   * categories are given up on straight away.  Defaults to all categories.
+   */
+  categories?: Array<PrefetchCategoryKey | CustomCategoryKey>;
+  /**
+   * Number of failed tiles remembered.  Beyond it the tile that failed least
+   * recently is forgotten, and may be tried again.  Defaults to 1000.
+   */
+  maxTiles?: number;
+}
+
+export interface PrefetchCircuitStats {
+  state: CircuitStateKey;
+  consecutiveFailures: number;
+  /** When an open circuit goes half-open (epoch ms), otherwise null. */
+  openUntil: number | null;
+}
+
+export interface PrefetchCircuitBreakerOptions {
+  /** Consecutive errors after which a circuit opens.  Defaults to 5. */
+  failureThreshold?: number;
+  /** How long (ms) an open circuit pauses requests.  Defaults to 30000. */
+  cooldown?: number;
+  /** Key circuits by source host (default) or by layer. */
+  scope?: 'host' | 'layer';
+}
+
+export interface PrefetchBudgetOptions {
+  /** Maximum bytes prefetched per session (until `resetBudget`). */
+  maxBytes?: number;
+  /** Maximum tiles prefetched per session (until `resetBudget`). */
+  maxTiles?: number;
+  /** Maximum bytes prefetched in any 60 s window. */
+  maxBytesPerMinute?: number;
+  /** Maximum tiles prefetched in any 60 s window. */
+  maxTilesPerMinute?: number;
+  /** Maximum bytes prefetched for a single next-navigation target. */
+  maxBytesPerTarget?: number;
+  /** Maximum tiles prefetched for a single next-navigation target. */
+  maxTilesPerTarget?: number;
+  /**
+   * Size assumed for a tile whose real size cannot be measured (e.g.
+   * cross-origin images without Timing-Allow-Origin).  Defaults to 30000.
+   */
+  estimatedTileBytes?: number;
+  /**
+   * Categories that keep loading when the budget is exhausted.  Defaults to
+   * the active layer's spatial category only.
+   */
+  protectedCategories?: Array<PrefetchCategoryKey | CustomCategoryKey>;
+}
+
+export interface PrefetchBudgetStats {
+  usedBytes: number;
+  usedTiles: number;
+  /** Null when the corresponding limit is not set. */
+  remainingBytes: number | null;
+  remainingTiles: number | null;
+  remainingBytesThisMinute: number | null;
+  remainingTilesThisMinute: number | null;
+  exhausted: boolean;
+}
+
+export interface PrefetchAdaptiveConcurrencyOptions {
+  /** Lower bound for the concurrency limit.  Defaults to 2. */
+  min?: number;
+  /** Upper bound for the concurrency limit.  Defaults to `maxConcurrentPrefetches`. */
+  max?: number;
+  /** Loads slower than this (ms) count as congestion.  Defaults to 1500. */
+  targetLatency?: number;
+  /** Factor the limit is multiplied by on congestion.  Defaults to 0.5. */
+  decreaseFactor?: number;
+  /**
+   * `navigator.connection.effectiveType` values treated as a slow network.
+   * Defaults to `['slow-2g', '2g']`.
+   */
+  slowEffectiveTypes?: string[];
+  /**
+   * Categories still dispatched when data saver is on or the network is slow.
+   * Defaults to the active layer's spatial category only.
+   */
+  constrainedCategories?: Array<PrefetchCategoryKey | CustomCategoryKey>;
+}
+
+export interface PrefetchConcurrencyStats {
+  /** Concurrency limit currently in effect. */
+  limit: number;
+  adaptive: boolean;
+  /** True when data saver or a slow connection has disabled lower categories. */
+  networkConstrained: boolean;
 }
 
 export interface PrefetchStats {
@@ -55,14 +519,121 @@ export interface PrefetchStats {
   bgBuffer: PrefetchCategoryStats;
   nextNavPrimary: PrefetchCategoryStats;
   nextNavBackground: PrefetchCategoryStats;
-  nextTargets: { center: Coordinate; zoom: number }[];
+  route: PrefetchCategoryStats;
+  area: PrefetchCategoryStats;
+  timeSeries: PrefetchCategoryStats;
+  playback: PrefetchCategoryStats;
+  /** Counts of each registered custom category, by key. */
+  custom: Record<string, PrefetchCategoryStats & { label: string }>;
+  nextTargets: Array<PrefetchTarget & { progress: PrefetchTargetProgress }>;
   recentErrors: PrefetchError[];
-  categoryPriorities: Record<PrefetchCategoryKey, number>;
+  categoryPriorities: PrefetchCategoryPriorities;
+  /** Circuit breaker state per host (or layer); only circuits that have seen errors. */
+  circuits: Record<string, PrefetchCircuitStats>;
+  /** Budget usage; null when no `budget` option is set. */
+  budget: PrefetchBudgetStats | null;
+  concurrency: PrefetchConcurrencyStats;
+  /** Progress of each `prefetchArea` job that has not been cancelled. */
+  areas: Array<{ id: number; progress: PrefetchTargetProgress }>;
 }
 
 export interface PrefetchManagerOptions {
   map: Map;
   spatialBufferFactor?: number;
+  /**
+   * Factor to expand the viewport by when prefetching buffer tiles for
+   * background layers (`bgBuffer` category).  Independent of
+   * `spatialBufferFactor`; a value of 1 disables background buffering.
+   * Defaults to 1.25.
+   */
+  backgroundBufferFactor?: number;
+  /**
+   * Number of coarser zoom levels to prefetch for the current view.  Parent
+   * tiles are cheap and make zooming out instant.  Defaults to 0.
+   */
+  zoomLevelsAbove?: number;
+  /**
+   * Number of finer zoom levels to prefetch around the view centre, so
+   * zooming in shows sharp tiles straight away.  Defaults to 0.
+   */
+  zoomLevelsBelow?: number;
+  /**
+   * When true, the zoom window is also prefetched for background layers (as
+   * `bgBuffer` tasks).  Defaults to false (active layer only).
+   */
+  zoomLevelsForBackground?: boolean;
+  /**
+   * Priority offset added within the category for each parent level away
+   * from the current zoom.  Defaults to 0.01; raised where needed so a level
+   * outweighs the background layer sub-priorities.
+   */
+  zoomLevelsAbovePriorityOffset?: number;
+  /**
+   * Priority offset added within the category for each child level away
+   * from the current zoom.  Defaults to 0.02.
+   */
+  zoomLevelsBelowPriorityOffset?: number;
+  /**
+   * When true, the manager follows view centre changes during interaction and
+   * shifts the spatial and background buffers towards the pan direction.
+   * Buffer tiles are then ordered by projected time-to-visibility.
+   * Defaults to false (symmetric buffer).
+   */
+  directionalPrefetch?: boolean;
+  /**
+   * How far ahead (ms) the pan velocity is projected when shifting buffers.
+   * Only used with `directionalPrefetch`.  Defaults to 1000.
+   */
+  panLookahead?: number;
+  /**
+   * Custom ordering for queued tasks.  Defaults to ascending priority, then
+   * ascending distance from the view or target centre (`compareTasks`).
+   */
+  taskComparator?: (a: PrefetchTask, b: PrefetchTask) => number;
+  /**
+   * Retry failed prefetch tiles with exponential backoff.  While a tile cools
+   * down it is not re-queued.  When omitted, failed tiles are not tracked and
+   * may be re-queued by the next rebuild.
+   */
+  retry?: PrefetchRetryOptions;
+  /**
+   * Pause prefetching from a tile source after repeated consecutive errors
+   * (e.g. 429/503), then probe it with a single request once the cool-down
+   * expires.  Disabled when omitted.
+   */
+  circuitBreaker?: PrefetchCircuitBreakerOptions;
+  /**
+   * Cap the data prefetching may use, e.g. on metered connections.  Once used
+   * up, only `protectedCategories` are dispatched.  Unlimited when omitted.
+   */
+  budget?: PrefetchBudgetOptions;
+  /**
+   * Keep prefetched tiles in persistent storage and serve managed layers from
+   * it first, so they survive tile cache pruning and page reloads.
+   */
+  persistentCache?: PrefetchPersistentCacheOptions;
+  /**
+   * Check the planned tiles of each source against its tile cache size, so
+   * prefetched tiles are not evicted before they are seen.  `true` uses the
+   * defaults (warn only).  Only sources with a tile cache of their own are
+   * checked, so the guard does nothing with ol 10 and later.
+   */
+  cacheGuard?: PrefetchCacheGuardOptions | true;
+  /**
+   * Load prefetched image tiles with `fetch`, adding request headers,
+   * credentials and auth tokens, instead of through the source's
+   * `tileLoadFunction`.  The load functions of managed layers' sources are
+   * wrapped for this, which clears their tile caches once.  With a
+   * `persistentCache` too, fetched tiles are stored and the map's own loads
+   * are served from storage.
+   */
+  fetchLoader?: PrefetchFetchLoaderOptions;
+  /**
+   * Tune the concurrency limit automatically from tile latencies, errors and
+   * `navigator.connection`.  `true` uses the defaults.  With data saver on or
+   * a slow connection, lower-priority categories are paused.
+   */
+  adaptiveConcurrency?: boolean | PrefetchAdaptiveConcurrencyOptions;
   maxConcurrentPrefetches?: number;
   idleDelay?: number;
   tickInterval?: number;
@@ -79,4 +650,21 @@ export interface PrefetchManagerOptions {
    * `excludeLayer` / `includeLayer`.
    */
   excludedLayers?: PrefetchTileLayer[];
+  /**
+   * Strategies to plan tiles with in addition to the built-in ones, e.g. for
+   * time-series neighbours or predicted hotspots.  Can also be changed at
+   * runtime via `addPlannerStrategy` / `removePlannerStrategy`.
+   */
+  plannerStrategies?: PrefetchPlannerStrategy[];
+  /**
+   * Show a time series in one layer and prefetch the viewport tiles of the
+   * times around the current one, nearest first.  Can also be set at runtime
+   * via `setTimeSeries`.
+   */
+  timeSeries?: PrefetchTimeSeriesOptions;
+  /**
+   * Prefetch the frames of an animation ahead of their display deadlines.
+   * Can also be set at runtime via `setPlayback`.
+   */
+  playback?: PrefetchPlaybackOptions;
 }
@@ -0,0 +1,145 @@
+/**
+ * @module ol/prefetch/RetryPolicy
+ */
+import type { CustomCategoryKey, PrefetchCategoryKey } from './PrefetchConstants';
+import type { PrefetchRetryOptions } from './PrefetchTypes';
+
+interface RetryEntry {
+  attempts: number;
+  retryAt: number;
+  gaveUp: boolean;
+}
+
+export interface RetryOutcome {
+  /** Number of failed attempts so far, including this one. */
+  attempt: number;
+  /** True if the tile will not be retried again. */
+  gaveUp: boolean;
+}
+
+/**
+ * Holds failed tiles in a cool-down set with exponential backoff so a failing
+ * server is not hammered by every queue rebuild.
+ *
+ * The planner skips tiles for which `isBlocked` returns true; once the
+ * earliest cool-down expires `onRetryReady` fires so the manager can rebuild
+ * and pick them up again.  At most `maxTiles` failed tiles are remembered, so
+ * a long session with a flaky source does not grow the set without bound.
+ */
+class RetryPolicy {
+  private maxAttempts_: number;
+  private baseDelay_: number;
+  private jitter_: number;
+  private categories_: Set<PrefetchCategoryKey | CustomCategoryKey> | null;
+  private maxTiles_: number;
+  private onRetryReady_: () => void;
+  private entries_: Map<string, RetryEntry> = new Map();
+  private timer_: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: PrefetchRetryOptions, onRetryReady: () => void) {
+    this.maxAttempts_ = Math.max(1, options.maxAttempts ?? 3);
+    this.baseDelay_ = options.baseDelay ?? 1000;
+    this.jitter_ = Math.min(1, Math.max(0, options.jitter ?? 0.2));
+    this.categories_ = options.categories ? new Set(options.categories) : null;
+    this.maxTiles_ = Math.max(1, options.maxTiles ?? 1000);
+    this.onRetryReady_ = onRetryReady;
+  }
+
+  /**
+   * Record a failed load.  Tiles in categories that are not retried are given
+   * up on straight away.
+   */
+  recordFailure(
+    tileKey: string,
+    category: PrefetchCategoryKey | CustomCategoryKey,
+  ): RetryOutcome {
+    const entry = this.entries_.get(tileKey) ?? {
+      attempts: 0,
+      retryAt: 0,
+      gaveUp: false,
+    };
+    entry.attempts++;
+
+    const retried = !this.categories_ || this.categories_.has(category);
+    if (!retried || entry.attempts >= this.maxAttempts_) {
+      entry.gaveUp = true;
+    } else {
+      const backoff = this.baseDelay_ * 2 ** (entry.attempts - 1);
+      const jitter = 1 + this.jitter_ * (Math.random() * 2 - 1);
+      entry.retryAt = Date.now() + backoff * jitter;
+    }
+
+    // Re-insert so the map stays ordered from least to most recently failed.
+    this.entries_.delete(tileKey);
+    this.entries_.set(tileKey, entry);
+    for (const key of this.entries_.keys()) {
+      if (this.entries_.size <= this.maxTiles_) {
+        break;
+      }
+      this.entries_.delete(key);
+    }
+    this.scheduleRetry_();
+    return { attempt: entry.attempts, gaveUp: entry.gaveUp };
+  }
+
+  /**
+   * Forget any failures for a tile that has since loaded.
+   */
+  recordSuccess(tileKey: string): void {
+    this.entries_.delete(tileKey);
+  }
+
+  /**
+   * True while a tile is cooling down or has been given up on.
+   */
+  isBlocked(tileKey: string): boolean {
+    const entry = this.entries_.get(tileKey);
+    if (!entry) {
+      return false;
+    }
+    return entry.gaveUp || entry.retryAt > Date.now();
+  }
+
+  /**
+   * Forget all failures, including tiles that were given up on.
+   */
+  clear(): void {
+    this.entries_.clear();
+    if (this.timer_) {
+      clearTimeout(this.timer_);
+      this.timer_ = null;
+    }
+  }
+
+  private scheduleRetry_(): void {
+    if (this.timer_) {
+      clearTimeout(this.timer_);
+      this.timer_ = null;
+    }
+
+    // Expired entries stay in the map so their attempt count survives until
+    // the tile loads, but they no longer need a timer.
+    const now = Date.now();
+    let earliest = Infinity;
+    for (const entry of this.entries_.values()) {
+      if (!entry.gaveUp && entry.retryAt > now && entry.retryAt < earliest) {
+        earliest = entry.retryAt;
+      }
+    }
+    if (earliest === Infinity) {
+      return;
+    }
+
+    this.timer_ = setTimeout(() => {
+      this.timer_ = null;
+      this.onRetryReady_();
+      this.scheduleRetry_();
+    }, earliest - now);
+  }
+
+  dispose(): void {
+    this.clear();
+  }
+}
+
+export default RetryPolicy;
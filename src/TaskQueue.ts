@@ -0,0 +1,300 @@
+/**
+ * @module ol/prefetch/TaskQueue
+ */
+import type { PrefetchTask } from './PrefetchTypes';
+
+/** A queued task and its position in its heap. */
+interface Entry {
+  task: PrefetchTask;
+  index: number;
+  /** Rejected by `popMatching` since the last `restore`. */
+  held: boolean;
+}
+
+/**
+ * Prefetch tasks in priority order: a binary heap, indexed by task id.
+ *
+ * Adding a task, removing one by id, changing a priority and taking the most
+ * urgent task are O(log n).  Tasks a filtered pop rejects are held in a
+ * second heap, so later filtered pops do not test them again; `restore` puts
+ * them back for later pops to consider.  A tile is queued once: adding a task
+ * whose id is already queued keeps the more urgent of the two.
+ */
+class TaskQueue {
+  private compare_: (a: PrefetchTask, b: PrefetchTask) => number;
+  private heap_: Entry[] = [];
+  private entries_: Map<string, Entry> = new Map();
+  /** Tasks rejected by `popMatching` since the last `restore`. */
+  private held_: Entry[] = [];
+
+  /**
+   * @param compare Task ordering; negative if `a` loads before `b`.
+   * @param tasks Initial tasks, heapified in O(n).
+   */
+  constructor(
+    compare: (a: PrefetchTask, b: PrefetchTask) => number,
+    tasks: Iterable<PrefetchTask> = [],
+  ) {
+    this.compare_ = compare;
+    for (const task of tasks) {
+      const entry = this.entries_.get(task.id);
+      if (!entry) {
+        this.addEntry_(task);
+      } else if (compare(task, entry.task) < 0) {
+        entry.task = task;
+      }
+    }
+    this.heapify_(this.heap_);
+  }
+
+  /** Number of queued tasks, including held ones. */
+  get length(): number {
+    return this.entries_.size;
+  }
+
+  has(id: string): boolean {
+    return this.entries_.has(id);
+  }
+
+  get(id: string): PrefetchTask | undefined {
+    return this.entries_.get(id)?.task;
+  }
+
+  /**
+   * Add a task.  Returns false if a task with the same id that loads no later
+   * is already queued; a less urgent one is replaced.
+   */
+  push(task: PrefetchTask): boolean {
+    let entry = this.entries_.get(task.id);
+    if (entry) {
+      if (this.compare_(task, entry.task) >= 0) {
+        return false;
+      }
+      // The new task may pass the filter that held the old one.
+      this.unhold_(entry);
+      entry.task = task;
+      this.siftUp_(this.heap_, entry);
+    } else {
+      entry = this.addEntry_(task);
+      this.siftUp_(this.heap_, entry);
+    }
+    return true;
+  }
+
+  /** The most urgent task, without removing it. */
+  peek(): PrefetchTask | undefined {
+    const top = this.heap_[0];
+    const held = this.held_[0];
+    if (!held) {
+      return top?.task;
+    }
+    return !top || this.compare_(held.task, top.task) <= 0 ? held.task : top.task;
+  }
+
+  /** Remove and return the most urgent task. */
+  pop(): PrefetchTask | undefined {
+    const task = this.peek();
+    return task && this.remove(task.id);
+  }
+
+  /**
+   * Remove and return the most urgent task accepted by `predicate`, or
+   * undefined if none is.  Tasks are tested in priority order; those rejected
+   * are held and skipped by later calls until `restore`, so taking several
+   * tasks tests each one once.  This suits a predicate that keeps rejecting a
+   * task once it has, e.g. because its layer is at its concurrency limit.
+   */
+  popMatching(predicate: (task: PrefetchTask) => boolean): PrefetchTask | undefined {
+    const heap = this.heap_;
+    for (let top = heap[0]; top; top = heap[0]) {
+      this.removeFromHeap_(heap, top);
+      if (predicate(top.task)) {
+        this.entries_.delete(top.task.id);
+        return top.task;
+      }
+      top.held = true;
+      top.index = this.held_.length;
+      this.held_.push(top);
+      this.siftUp_(this.held_, top);
+    }
+    return undefined;
+  }
+
+  /**
+   * Let later pops consider the tasks `popMatching` rejected again.  Costs
+   * O(log n) per held task, as much as rejecting it did.
+   */
+  restore(): void {
+    const held = this.held_;
+    if (held.length === 0) {
+      return;
+    }
+    this.held_ = [];
+    const heap = this.heap_;
+    for (const entry of held) {
+      entry.held = false;
+      entry.index = heap.length;
+      heap.push(entry);
+    }
+    if (held.length > heap.length >> 1) {
+      this.heapify_(heap);
+    } else {
+      for (const entry of held) {
+        this.siftUp_(heap, entry);
+      }
+    }
+  }
+
+  /** Remove the task with the given id, and return it. */
+  remove(id: string): PrefetchTask | undefined {
+    const entry = this.entries_.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries_.delete(id);
+    this.removeFromHeap_(entry.held ? this.held_ : this.heap_, entry);
+    return entry.task;
+  }
+
+  /**
+   * Change the priority of a queued task, and move it accordingly.  Returns
+   * false if no task has the id.
+   */
+  updatePriority(id: string, priority: number): boolean {
+    const entry = this.entries_.get(id);
+    if (!entry) {
+      return false;
+    }
+    this.unhold_(entry);
+    entry.task.priority = priority;
+    this.siftUp_(this.heap_, entry);
+    this.siftDown_(this.heap_, entry);
+    return true;
+  }
+
+  /**
+   * Keep only the tasks accepted by `predicate`, in O(n).  Returns the number
+   * of tasks removed.
+   */
+  retain(predicate: (task: PrefetchTask) => boolean): number {
+    const count = this.entries_.size;
+    const kept: Entry[] = [];
+    for (const entry of this.entries_.values()) {
+      if (predicate(entry.task)) {
+        entry.held = false;
+        entry.index = kept.length;
+        kept.push(entry);
+      } else {
+        this.entries_.delete(entry.task.id);
+      }
+    }
+    this.heap_ = kept;
+    this.held_ = [];
+    this.heapify_(kept);
+    return count - kept.length;
+  }
+
+  some(predicate: (task: PrefetchTask) => boolean): boolean {
+    for (const entry of this.entries_.values()) {
+      if (predicate(entry.task)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** The queued tasks, in no particular order. */
+  getTasks(): PrefetchTask[] {
+    return Array.from(this.entries_.values(), (entry) => entry.task);
+  }
+
+  /** The queued tasks, most urgent first. */
+  getSortedTasks(): PrefetchTask[] {
+    return this.getTasks().sort(this.compare_);
+  }
+
+  clear(): void {
+    this.heap_ = [];
+    this.entries_.clear();
+    this.held_ = [];
+  }
+
+  private addEntry_(task: PrefetchTask): Entry {
+    const entry = { task, index: this.heap_.length, held: false };
+    this.heap_.push(entry);
+    this.entries_.set(task.id, entry);
+    return entry;
+  }
+
+  /**
+   * Move a held entry to the end of the main heap, to be sifted into place.
+   */
+  private unhold_(entry: Entry): void {
+    if (!entry.held) {
+      return;
+    }
+    this.removeFromHeap_(this.held_, entry);
+    entry.held = false;
+    entry.index = this.heap_.length;
+    this.heap_.push(entry);
+  }
+
+  private removeFromHeap_(heap: Entry[], entry: Entry): void {
+    const last = heap.pop() as Entry;
+    if (last !== entry) {
+      heap[entry.index] = last;
+      last.index = entry.index;
+      this.siftUp_(heap, last);
+      this.siftDown_(heap, last);
+    }
+  }
+
+  private heapify_(heap: Entry[]): void {
+    for (let index = (heap.length >> 1) - 1; index >= 0; index--) {
+      this.siftDown_(heap, heap[index]);
+    }
+  }
+
+  private siftUp_(heap: Entry[], entry: Entry): void {
+    let index = entry.index;
+    while (index > 0) {
+      const parent = heap[(index - 1) >> 1];
+      if (this.compare_(entry.task, parent.task) >= 0) {
+        break;
+      }
+      heap[index] = parent;
+      parent.index = index;
+      index = (index - 1) >> 1;
+    }
+    heap[index] = entry;
+    entry.index = index;
+  }
+
+  private siftDown_(heap: Entry[], entry: Entry): void {
+    const count = heap.length;
+    let index = entry.index;
+    for (;;) {
+      let childIndex = 2 * index + 1;
+      if (childIndex >= count) {
+        break;
+      }
+      if (
+        childIndex + 1 < count &&
+        this.compare_(heap[childIndex + 1].task, heap[childIndex].task) < 0
+      ) {
+        childIndex++;
+      }
+      const child = heap[childIndex];
+      if (this.compare_(child.task, entry.task) >= 0) {
+        break;
+      }
+      heap[index] = child;
+      child.index = index;
+      index = childIndex;
+    }
+    heap[index] = entry;
+    entry.index = index;
+  }
+}
+
+export default TaskQueue;
@@ -0,0 +1,106 @@
+/**
+ * @module ol/prefetch/TileLoadWrapper
+ */
+import type Tile from 'ol/Tile.js';
+import type { LoadFunction } from 'ol/Tile.js';
+import type { PrefetchTileLayer } from './PrefetchTypes';
+
+/** The parts of `ol/source/UrlTile` a wrapper is installed through. */
+interface UrlTileSource {
+  getTileLoadFunction(): LoadFunction;
+  setTileLoadFunction(tileLoadFunction: LoadFunction): void;
+}
+
+/**
+ * Loads a tile itself, or hands it on to `next`: the load function of the
+ * wrapper attached before, or the source's own.
+ */
+export type TileLoadWrap = (tile: Tile, src: string, next: LoadFunction) => void;
+
+/** The wrappers attached to a source. */
+interface WrapperStack {
+  /** The source's own load function. */
+  original: LoadFunction;
+  /** In attach order; the last one attached is called first. */
+  wrappers: TileLoadWrapper[];
+}
+
+const stacks: WeakMap<UrlTileSource, WrapperStack> = new WeakMap();
+
+/**
+ * Wraps the `tileLoadFunction` of attached sources.
+ *
+ * Wrappers of one source stack: the one attached last is called first and
+ * hands the loads it leaves on to the one attached before it.  So with both a
+ * persistent cache and a fetch loader (attached in that order by the
+ * manager), prefetch loads are fetched by the loader and the map's own loads
+ * are served from storage.  Disposing a wrapper takes only it out of the
+ * stack, in any order; the last one out restores the source's own function.
+ */
+class TileLoadWrapper {
+  private wrap_: TileLoadWrap;
+  private sources_: Set<UrlTileSource> = new Set();
+
+  /**
+   * @param wrap Loads attached sources' tiles.
+   */
+  constructor(wrap: TileLoadWrap) {
+    this.wrap_ = wrap;
+  }
+
+  /**
+   * Wrap the `tileLoadFunction` of the layer's source.  Sources without one
+   * (e.g. data tile sources) and already attached sources are left alone.
+   * Note that setting the load function clears the source's tile cache.
+   */
+  attach(layer: PrefetchTileLayer): void {
+    const source = layer.getSource() as unknown as Partial<UrlTileSource> | null;
+    if (
+      !source ||
+      typeof source.getTileLoadFunction !== 'function' ||
+      typeof source.setTileLoadFunction !== 'function' ||
+      this.sources_.has(source as UrlTileSource)
+    ) {
+      return;
+    }
+    const urlSource = source as UrlTileSource;
+    let stack = stacks.get(urlSource);
+    if (!stack) {
+      stack = { original: urlSource.getTileLoadFunction(), wrappers: [] };
+      stacks.set(urlSource, stack);
+    }
+    stack.wrappers.push(this);
+    this.sources_.add(urlSource);
+    this.install_(urlSource, stack);
+  }
+
+  dispose(): void {
+    for (const source of this.sources_) {
+      const stack = stacks.get(source)!;
+      stack.wrappers.splice(stack.wrappers.indexOf(this), 1);
+      if (stack.wrappers.length === 0) {
+        stacks.delete(source);
+      }
+      this.install_(source, stack);
+    }
+    this.sources_.clear();
+  }
+
+  /**
+   * The load function this wrapper makes of `next`.
+   */
+  private wrapLoad_(next: LoadFunction): LoadFunction {
+    return (tile, src) => this.wrap_(tile, src, next);
+  }
+
+  /**
+   * Set the source's load function to its stack of wrappers.
+   */
+  private install_(source: UrlTileSource, stack: WrapperStack): void {
+    source.setTileLoadFunction(
+      stack.wrappers.reduce((next, wrapper) => wrapper.wrapLoad_(next), stack.original),
+    );
+  }
+}
+
+export default TileLoadWrapper;
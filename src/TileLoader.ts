@@ -2,35 +2,161 @@
  * @module ol/prefetch/TileLoader
  */
 import TileState from 'ol/TileState.js';
-import { getCategoryName } from './PrefetchConstants';
+import { getKey } from 'ol/tilecoord.js';
+import CategoryRegistry from './CategoryRegistry';
 import type { Listener } from 'ol/events.js';
 import type OLMap from 'ol/Map.js';
 import type Tile from 'ol/Tile.js';
-import type { PrefetchError, PrefetchTask } from './PrefetchTypes';
+import type ImageTile from 'ol/ImageTile.js';
+import type TileCache from 'ol/TileCache.js';
+import type Projection from 'ol/proj/Projection.js';
+import type TileSource from 'ol/source/Tile.js';
+import type {
+  PrefetchError,
+  PrefetchTask,
+  PrefetchTileLayer,
+  PrefetchTileLoad,
+} from './PrefetchTypes';
 import type PrefetchStats from './PrefetchStats';
+import type RetryPolicy from './RetryPolicy';
+import type CircuitBreaker from './CircuitBreaker';
+import type PrefetchBudget from './PrefetchBudget';
+import type FetchTileLoader from './FetchTileLoader';
 
 export interface TileLoaderCallbacks {
   onSlotFreed: () => void;
   onStatsChanged: () => void;
+  /** Called for every finished load with its duration in ms. */
+  onLoadTimed?: (latency: number, failed: boolean) => void;
+  /** Called when a load is dispatched. */
+  onTileLoadStart?: (task: PrefetchTask) => void;
+  /** Called when a load settles; `error` is set if it failed. */
+  onTileLoadEnd?: (task: PrefetchTask, error: PrefetchError | null) => void;
+  /**
+   * True if the map shows the task's tile in the current view.  Abandoned
+   * loads of such tiles keep running, for the map to use.
+   */
+  isTileShown?: (task: PrefetchTask) => boolean;
+}
+
+interface LoadingEntry {
+  task: PrefetchTask;
+  /** The layer's source when the load started; layers can swap sources. */
+  source: TileSource;
+  unlisten: () => void;
+  abort: () => void;
+}
+
+/**
+ * Cancel the request behind a loading tile and drop the tile from its
+ * source's tile cache, the way the cache evicts tiles, so the map or a later
+ * prefetch loads a fresh one.
+ *
+ * Load functions that fetch are expected to honour the signal of the tile's
+ * `PrefetchTileLoad`; image requests are stopped by clearing the image's
+ * `src`.  Sources of ol 10 and later keep no tile cache, so there is nothing
+ * to drop the tile from.
+ */
+function abortTileLoad(
+  tile: Tile,
+  source: TileSource,
+  projection: Projection,
+  controller: AbortController,
+): void {
+  controller.abort();
+  if (tile.getState() !== TileState.LOADING) {
+    return;
+  }
+  const image = (tile as Partial<Pick<ImageTile, 'getImage'>>).getImage?.();
+  if (image && 'src' in image) {
+    image.src = '';
+  }
+  const cacheSource = source as unknown as {
+    getTileCacheForProjection?: (projection: Projection) => TileCache;
+  };
+  if (typeof cacheSource.getTileCacheForProjection !== 'function') {
+    return;
+  }
+  const cache = cacheSource.getTileCacheForProjection(projection);
+  const key = getKey(tile.getTileCoord());
+  if (cache.containsKey(key) && cache.peek(key) === tile) {
+    cache.remove(key);
+  }
+  tile.release();
 }
 
 /**
  * Manages in-flight prefetch downloads. Supports abandoning all in-flight
  * loads on user interaction so they don't block slots or compete with the
- * map's own tile queue for HTTP connections.
+ * map's own tile queue for HTTP connections.  Abandoned requests are
+ * cancelled, unless the map shows their tile.
  */
 class TileLoader {
   private callbacks_: TileLoaderCallbacks;
-  private loading_: Map<string, { task: PrefetchTask; unlisten: () => void }> = new Map();
+  private retryPolicy_: RetryPolicy | null;
+  private circuitBreaker_: CircuitBreaker | null;
+  private budget_: PrefetchBudget | null;
+  private fetchLoader_: FetchTileLoader | null;
+  private categories_: CategoryRegistry;
+  private loading_: Map<string, LoadingEntry> = new Map();
+  /** Tiles with a prefetch load in progress; a later load by the map is none. */
+  private loads_: WeakMap<Tile, PrefetchTileLoad> = new WeakMap();
+  /** In-flight loads per layer and per source, for the concurrency limits. */
+  private layerCounts_: Map<PrefetchTileLayer, number> = new Map();
+  private sourceCounts_: Map<TileSource, number> = new Map();
 
-  constructor(callbacks: TileLoaderCallbacks) {
+  constructor(
+    callbacks: TileLoaderCallbacks,
+    retryPolicy: RetryPolicy | null = null,
+    circuitBreaker: CircuitBreaker | null = null,
+    budget: PrefetchBudget | null = null,
+    fetchLoader: FetchTileLoader | null = null,
+    categories = new CategoryRegistry(),
+  ) {
     this.callbacks_ = callbacks;
+    this.retryPolicy_ = retryPolicy;
+    this.circuitBreaker_ = circuitBreaker;
+    this.budget_ = budget;
+    this.fetchLoader_ = fetchLoader;
+    this.categories_ = categories;
   }
 
   get activeCount(): number {
     return this.loading_.size;
   }
 
+  /**
+   * The prefetch load in progress for the tile, or null if it is not being
+   * prefetched.
+   */
+  getLoad(tile: Tile): PrefetchTileLoad | null {
+    return this.loads_.get(tile) ?? null;
+  }
+
+  /**
+   * True if any in-flight load matches the predicate.
+   */
+  someLoading(predicate: (task: PrefetchTask) => boolean): boolean {
+    for (const [, entry] of this.loading_) {
+      if (predicate(entry.task)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Number of in-flight loads for the given layer.
+   */
+  getLayerCount(layer: PrefetchTileLayer): number {
+    return this.layerCounts_.get(layer) ?? 0;
+  }
+
+  /**
+   * Number of in-flight loads for layers sharing the given source.
+   */
+  getSourceCount(source: TileSource): number {
+    return this.sourceCounts_.get(source) ?? 0;
+  }
+
   startTask(task: PrefetchTask, map: OLMap, stats: PrefetchStats): void {
     const source = task.layer.getSource();
     if (!source) {
@@ -70,17 +196,29 @@ class TileLoader {
       return;
     }
 
-    this.loading_.set(task.id, { task, unlisten: () => {} });
+    const entry: LoadingEntry = { task, source, unlisten: () => {}, abort: () => {} };
+    this.addLoading_(entry);
     stats.recordLoadingStart(category);
+    const circuitKey = this.circuitBreaker_?.keyFor(task.layer);
+    if (circuitKey !== undefined) {
+      this.circuitBreaker_?.recordDispatch(circuitKey);
+    }
 
     const taskId = task.id;
+    const startTime = Date.now();
     const layerName = task.layer.get('name') || task.layer.get('label') || 'unknown';
-    (
-      tile as unknown as { __prefetchCategory?: string; __prefetchLayer?: string }
-    ).__prefetchCategory = task.category;
-    (
-      tile as unknown as { __prefetchCategory?: string; __prefetchLayer?: string }
-    ).__prefetchLayer = layerName;
+    const controller = new AbortController();
+    const taggedTile = tile as unknown as {
+      __prefetchCategory?: string;
+      __prefetchLayer?: string;
+    };
+    taggedTile.__prefetchCategory = task.category;
+    taggedTile.__prefetchLayer = layerName;
+    this.loads_.set(tile, {
+      category: task.category,
+      layer: task.layer,
+      signal: controller.signal,
+    });
 
     const onTileChange: Listener = () => {
       const newState = tile.getState();
@@ -93,58 +231,119 @@ class TileLoader {
       }
 
       tile.removeEventListener('change', onTileChange);
+      this.loads_.delete(tile);
 
-      if (!this.loading_.has(taskId)) {
+      if (this.loading_.get(taskId) !== entry) {
         return;
       }
 
-      this.loading_.delete(taskId);
+      this.deleteLoading_(entry);
       stats.recordLoadingEnd(category);
 
+      let error: PrefetchError | null = null;
       if (newState === TileState.LOADED) {
+        this.retryPolicy_?.recordSuccess(taskId);
+        this.budget_?.recordUsage(task, tile);
         stats.recordLoaded(category);
       } else if (newState === TileState.ERROR) {
-        stats.recordError(category, this.buildErrorEntry_(task, tile));
+        error = this.buildErrorEntry_(task, tile);
+        stats.recordError(category, error);
       } else {
         stats.recordEmpty(category);
       }
 
+      if (circuitKey !== undefined) {
+        if (newState === TileState.ERROR) {
+          this.circuitBreaker_?.recordFailure(circuitKey);
+        } else {
+          this.circuitBreaker_?.recordSuccess(circuitKey);
+        }
+      }
+
+      this.callbacks_.onLoadTimed?.(Date.now() - startTime, newState === TileState.ERROR);
+      this.callbacks_.onTileLoadEnd?.(task, error);
       this.callbacks_.onStatsChanged();
       this.callbacks_.onSlotFreed();
     };
 
-    this.loading_.set(taskId, {
-      task,
-      unlisten: () => tile.removeEventListener('change', onTileChange),
-    });
+    entry.unlisten = () => tile.removeEventListener('change', onTileChange);
+    entry.abort = () => {
+      this.loads_.delete(tile);
+      if (!this.callbacks_.isTileShown?.(task)) {
+        abortTileLoad(tile, source, projection, controller);
+      }
+    };
 
     tile.addEventListener('change', onTileChange);
+    this.callbacks_.onTileLoadStart?.(task);
     tile.load();
   }
 
   abandonAll(stats: PrefetchStats): void {
     for (const [, entry] of this.loading_) {
       entry.unlisten();
+      entry.abort();
+      this.recordAbandoned_(entry.task);
       stats.recordLoadingEnd(entry.task.category);
     }
-    this.loading_.clear();
+    this.clearLoading_();
   }
 
   /**
-   * Abandon all in-flight tasks except those belonging to the given layer.
-   * Used to keep active-layer spatial loads running during user interaction.
+   * Abandon all in-flight tasks except those belonging to the given layer,
+   * or accepted by `keep`.  Used to keep active-layer spatial loads running
+   * during user interaction.
    */
   abandonNonActive(
     activeLayer: import('ol/layer/BaseTile.js').default<any, any> | null,
     stats: PrefetchStats,
+    keep?: (task: PrefetchTask) => boolean,
   ): void {
-    for (const [id, entry] of this.loading_) {
-      if (activeLayer && entry.task.layer === activeLayer) {
+    for (const [, entry] of this.loading_) {
+      if ((activeLayer && entry.task.layer === activeLayer) || keep?.(entry.task)) {
         continue;
       }
       entry.unlisten();
+      entry.abort();
+      this.recordAbandoned_(entry.task);
       stats.recordLoadingEnd(entry.task.category);
-      this.loading_.delete(id);
+      this.deleteLoading_(entry);
+    }
+  }
+
+  private addLoading_(entry: LoadingEntry): void {
+    const { layer } = entry.task;
+    this.loading_.set(entry.task.id, entry);
+    this.layerCounts_.set(layer, this.getLayerCount(layer) + 1);
+    this.sourceCounts_.set(entry.source, this.getSourceCount(entry.source) + 1);
+  }
+
+  private deleteLoading_(entry: LoadingEntry): void {
+    const { layer } = entry.task;
+    this.loading_.delete(entry.task.id);
+    const layerCount = this.getLayerCount(layer) - 1;
+    if (layerCount > 0) {
+      this.layerCounts_.set(layer, layerCount);
+    } else {
+      this.layerCounts_.delete(layer);
+    }
+    const sourceCount = this.getSourceCount(entry.source) - 1;
+    if (sourceCount > 0) {
+      this.sourceCounts_.set(entry.source, sourceCount);
+    } else {
+      this.sourceCounts_.delete(entry.source);
+    }
+  }
+
+  private clearLoading_(): void {
+    this.loading_.clear();
+    this.layerCounts_.clear();
+    this.sourceCounts_.clear();
+  }
+
+  private recordAbandoned_(task: PrefetchTask): void {
+    if (this.circuitBreaker_) {
+      this.circuitBreaker_.recordAbandoned(this.circuitBreaker_.keyFor(task.layer));
     }
   }
 
@@ -152,7 +351,7 @@ class TileLoader {
     const layerName = task.layer.get('name') || task.layer.get('label') || 'unknown';
 
     const anyTile = tile as unknown as { _prefetchError?: string };
-    let reason = anyTile._prefetchError;
+    let reason = this.fetchLoader_?.getError(tile) ?? anyTile._prefetchError;
     if (!reason) {
       const src = task.layer.getSource() as unknown as { getUrls?: () => string[] };
       if (src && typeof src.getUrls === 'function') {
@@ -170,12 +369,19 @@ class TileLoader {
       }
     }
 
+    const outcome = this.retryPolicy_?.recordFailure(task.id, task.category) ?? {
+      attempt: 1,
+      gaveUp: false,
+    };
+
     return {
       tileCoord: task.tileCoord,
-      category: getCategoryName(task.category),
+      category: this.categories_.getName(task.category),
       layerName,
       reason,
       timestamp: Date.now(),
+      attempt: outcome.attempt,
+      gaveUp: outcome.gaveUp,
     };
   }
 
@@ -183,7 +389,7 @@ class TileLoader {
     for (const [, entry] of this.loading_) {
       entry.unlisten();
     }
-    this.loading_.clear();
+    this.clearLoading_();
   }
 }
 
@@ -0,0 +1,240 @@
+/**
+ * @module ol/prefetch/TimeSeries
+ */
+import TileLayer from 'ol/layer/Tile.js';
+import TileImage from 'ol/source/TileImage.js';
+import { CATEGORY_PRIORITY_SPAN, PrefetchCategory } from './PrefetchConstants';
+import { planExtentTiles } from './PlannerStrategies';
+import type ImageTile from 'ol/ImageTile.js';
+import type TileSource from 'ol/source/Tile.js';
+import type { LoadFunction, UrlFunction } from 'ol/Tile.js';
+import type {
+  PrefetchPlanContext,
+  PrefetchPlannerStrategy,
+  PrefetchTaskDescriptor,
+  PrefetchTileLayer,
+  PrefetchTimeDimension,
+  PrefetchTimeSeriesOptions,
+  PrefetchTimeValue,
+} from './PrefetchTypes';
+
+/** The source of one time value, and a hidden layer to plan its tiles with. */
+interface Frame {
+  source: TileImage;
+  layer: PrefetchTileLayer;
+}
+
+/** The parts of `ol/source/UrlTile` and `ol/source/TileImage` copied per time. */
+interface UrlTileSourceLike {
+  getTileLoadFunction(): LoadFunction;
+  getTileUrlFunction(): UrlFunction;
+  crossOrigin?: string | null;
+  tileClass?: typeof ImageTile;
+  tileCache?: { highWaterMark: number };
+}
+
+/**
+ * Set a query parameter in a URL, replacing it if present (in any case, as
+ * WMS parameter names are case-insensitive).
+ */
+function setQueryParam(url: string, name: string, value: string): string {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`([?&])${escaped}=[^&#]*`, 'i');
+  const param = `${name}=${encodeURIComponent(value)}`;
+  if (pattern.test(url)) {
+    return url.replace(pattern, `$1${param}`);
+  }
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex < 0 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex < 0 ? '' : url.slice(hashIndex);
+  return `${base}${base.includes('?') ? '&' : '?'}${param}${hash}`;
+}
+
+/**
+ * Shows a time series in one layer and plans the tiles of the neighbouring
+ * times, as the `timeSeries` planner strategy.
+ *
+ * Every time value gets its own copy of the layer's source, pointed at that
+ * time.  Neighbours are prefetched into their copy, and `setCurrentTime`
+ * switches the layer to it, so the prefetched tiles show straight away.
+ * Copies of times outside the window are disposed.
+ */
+class TimeSeries implements PrefetchPlannerStrategy {
+  readonly name = 'timeSeries';
+  readonly phase = 'viewport';
+  private layer_: PrefetchTileLayer;
+  private template_: TileSource;
+  private times_: PrefetchTimeValue[];
+  private dimension_: string | PrefetchTimeDimension;
+  private before_: number;
+  private after_: number;
+  private index_ = 0;
+  private frames_: Map<PrefetchTimeValue, Frame> = new Map();
+
+  constructor(options: PrefetchTimeSeriesOptions) {
+    const template = options.layer.getSource();
+    if (
+      !template ||
+      typeof (template as unknown as Partial<UrlTileSourceLike>).getTileUrlFunction !==
+        'function'
+    ) {
+      throw new Error('The time series layer needs a source with tile URLs');
+    }
+    if (options.times.length === 0) {
+      throw new Error('The time series has no times');
+    }
+    this.layer_ = options.layer;
+    this.template_ = template;
+    this.times_ = options.times.slice();
+    this.dimension_ = options.dimension ?? 'TIME';
+    this.before_ = Math.max(0, Math.floor(options.before ?? 2));
+    this.after_ = Math.max(0, Math.floor(options.after ?? 2));
+    this.setCurrentTime(options.time ?? this.times_[0]);
+  }
+
+  getLayer(): PrefetchTileLayer {
+    return this.layer_;
+  }
+
+  getTimes(): PrefetchTimeValue[] {
+    return this.times_.slice();
+  }
+
+  getCurrentTime(): PrefetchTimeValue {
+    return this.times_[this.index_];
+  }
+
+  /**
+   * Show the given time.  Returns false, changing nothing, if it is not in
+   * the series.  Copies of times outside the window are disposed, except
+   * those of the `keep` times.
+   */
+  setCurrentTime(time: PrefetchTimeValue, keep: PrefetchTimeValue[] = []): boolean {
+    const index = this.times_.indexOf(time);
+    if (index < 0) {
+      return false;
+    }
+    this.index_ = index;
+    this.layer_.setSource(this.getFrame_(time).source);
+    const kept = new Set([time, ...this.getWindow(), ...keep]);
+    for (const [frameTime, frame] of this.frames_) {
+      if (!kept.has(frameTime)) {
+        frame.layer.dispose();
+        frame.source.dispose();
+        this.frames_.delete(frameTime);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * The hidden layer showing the given time's copy of the source, e.g. to
+   * plan its tiles with.  Null if the time is not in the series.
+   */
+  getFrameLayer(time: PrefetchTimeValue): PrefetchTileLayer | null {
+    return this.times_.includes(time) ? this.getFrame_(time).layer : null;
+  }
+
+  /**
+   * The times to prefetch, nearest first.  On equal distance the later time
+   * goes first, for forward playback.
+   */
+  getWindow(): PrefetchTimeValue[] {
+    const window: PrefetchTimeValue[] = [];
+    for (let d = 1; d <= Math.max(this.before_, this.after_); d++) {
+      if (d <= this.after_ && this.index_ + d < this.times_.length) {
+        window.push(this.times_[this.index_ + d]);
+      }
+      if (d <= this.before_ && this.index_ - d >= 0) {
+        window.push(this.times_[this.index_ - d]);
+      }
+    }
+    return window;
+  }
+
+  /**
+   * The viewport tiles of each time in the window.  Times further from the
+   * current one get a higher `timeSeries` priority, spread over
+   * `CATEGORY_PRIORITY_SPAN` however wide the window is.
+   */
+  plan(context: PrefetchPlanContext): PrefetchTaskDescriptor[] {
+    const descriptors: PrefetchTaskDescriptor[] = [];
+    const z = Math.round(context.zoom);
+    const priority = context.categoryPriorities[PrefetchCategory.TIME_SERIES];
+    const window = this.getWindow();
+    const step = CATEGORY_PRIORITY_SPAN / window.length;
+    window.forEach((time, rank) => {
+      planExtentTiles(
+        descriptors,
+        this.getFrame_(time).layer,
+        context.viewExtent,
+        z,
+        context.projection,
+        priority + rank * step,
+        PrefetchCategory.TIME_SERIES,
+      );
+    });
+    return descriptors;
+  }
+
+  private getFrame_(time: PrefetchTimeValue): Frame {
+    let frame = this.frames_.get(time);
+    if (!frame) {
+      const source = this.createSource_(time);
+      const name = this.layer_.get('name') || this.layer_.get('label') || 'time series';
+      frame = {
+        source,
+        layer: new TileLayer({ source, properties: { name: `${name} ${time}` } }),
+      };
+      this.frames_.set(time, frame);
+    }
+    return frame;
+  }
+
+  /**
+   * A copy of the template source pointed at the time.  URLs are taken from
+   * the template on every request, so later changes to it carry over.
+   */
+  private createSource_(time: PrefetchTimeValue): TileImage {
+    const template = this.template_;
+    const urlTemplate = template as unknown as UrlTileSourceLike;
+    const source = new TileImage({
+      attributions: template.getAttributions() ?? undefined,
+      cacheSize: urlTemplate.tileCache?.highWaterMark,
+      crossOrigin: urlTemplate.crossOrigin ?? null,
+      interpolate: template.getInterpolate(),
+      projection: template.getProjection() ?? undefined,
+      tileGrid: template.getTileGrid() ?? undefined,
+      tileClass: urlTemplate.tileClass,
+      tileLoadFunction: urlTemplate.getTileLoadFunction(),
+      tilePixelRatio: template.getTilePixelRatio(1),
+      wrapX: template.getWrapX(),
+      zDirection: template.zDirection,
+    });
+    const dimension = this.dimension_;
+    if (typeof dimension === 'function') {
+      source.setTileUrlFunction(urlTemplate.getTileUrlFunction());
+      dimension(source, time);
+    } else {
+      source.setTileUrlFunction((tileCoord, pixelRatio, projection) => {
+        const url = urlTemplate.getTileUrlFunction()(tileCoord, pixelRatio, projection);
+        return url && setQueryParam(url, dimension, String(time));
+      });
+    }
+    return source;
+  }
+
+  /**
+   * Give the layer its own source back and dispose the copies.
+   */
+  dispose(): void {
+    this.layer_.setSource(this.template_);
+    for (const frame of this.frames_.values()) {
+      frame.layer.dispose();
+      frame.source.dispose();
+    }
+    this.frames_.clear();
+  }
+}
+
+export default TimeSeries;
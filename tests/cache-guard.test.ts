@@ -0,0 +1,98 @@
+import assert from 'assert/strict';
+import CacheGuard from '../src/CacheGuard.ts';
+import PrefetchManager from '../src/PrefetchManager.ts';
+import { PrefetchCategory } from '../src/PrefetchConstants.ts';
+import { getUid } from 'ol/util.js';
+import { get as getProjection } from 'ol/proj.js';
+import type { FrameState } from 'ol/Map.js';
+import type { PrefetchTask } from '../src/PrefetchTypes.ts';
+import { createLayer, createManagerMap, createTask } from './fixtures.ts';
+
+const projection = getProjection('EPSG:3857')!;
+
+/** A frame that rendered `usedTiles`, keyed by source uid. */
+const createFrame = (usedTiles: Record<string, Record<string, boolean>>) =>
+  ({ usedTiles, viewState: { projection } }) as unknown as FrameState;
+
+/** A layer whose source caches up to `highWaterMark` tiles, as before ol 10. */
+const createCachingLayer = (highWaterMark: number) => {
+  const layer = createLayer('cached');
+  const cache = { highWaterMark };
+  const used: string[] = [];
+  const source = Object.assign(layer.getSource(), {
+    getTileCacheForProjection: () => cache,
+    updateCacheSize: (count: number) => {
+      cache.highWaterMark = Math.max(cache.highWaterMark, count);
+    },
+    useTile: (z: number, x: number, y: number) => void used.push(`${z}/${x}/${y}`),
+  });
+  return { layer, source, cache, used };
+};
+
+(() => {
+  const { layer, source, cache, used } = createCachingLayer(4);
+  const target = { center: [0, 0] as [number, number], zoom: 5 };
+  const tasks: PrefetchTask[] = [0, 1, 2, 3, 4, 5].map((x) => ({
+    ...createTask(`t${x}`, x, PrefetchCategory.NEXT_NAV_PRIMARY),
+    layer,
+    tileCoord: [5, x, 0],
+    target,
+  }));
+  const overflows: number[] = [];
+  const guard = new CacheGuard({ overflow: 'clamp', pinNextNav: true }, (o) =>
+    overflows.push(o.planned),
+  );
+
+  // One pinned tile and one rendered tile leave room for two tasks.
+  guard.pin(tasks[0]);
+  guard.handleFrame(createFrame({ [getUid(source)]: { a: true } }));
+  assert.deepEqual(used, ['5/0/0'], 'pinned tiles are marked as used');
+  const clamped = guard.check(tasks.slice(1), projection);
+  assert.deepEqual(
+    clamped.map((t) => t.id),
+    ['t1', 't2'],
+  );
+  assert.deepEqual(overflows, [7]);
+  guard.check(tasks.slice(1), projection);
+  assert.equal(overflows.length, 1, 'reported once per overflow');
+
+  guard.retainTargets([]);
+  const growing = new CacheGuard({ maxCacheSize: 6 }, (o) => overflows.push(o.planned));
+  assert.equal(growing.check(tasks.slice(1), projection).length, 5);
+  assert.equal(cache.highWaterMark, 5, 'cache grown to fit');
+  assert.equal(overflows.length, 1);
+
+  // Sources without a tile cache (ol 10) are not guarded.
+  const uncached = createLayer('uncached');
+  const unguarded = tasks.map((task) => ({ ...task, layer: uncached }));
+  guard.pin(unguarded[0]);
+  assert.deepEqual(guard.getPinnedTargets(), []);
+  guard.handleFrame(createFrame({}));
+  assert.equal(guard.check(unguarded, projection), unguarded);
+  assert.equal(overflows.length, 1);
+})();
+
+(() => {
+  // Removing a next target releases its pins; adding one keeps the others'.
+  const manager = new PrefetchManager({
+    map: createManagerMap(),
+    cacheGuard: { pinNextNav: true },
+  });
+  const guard = manager['cacheGuard_']!;
+  const { layer } = createCachingLayer(0);
+  manager.setNextTargets([
+    { center: [0, 0], zoom: 5 },
+    { center: [100, 0], zoom: 5 },
+  ]);
+  const [first, second] = manager['nextTargets_'];
+  for (const target of [first, second]) {
+    guard.pin({ ...createTask('pinned', 0), layer, target });
+  }
+  manager.addNextTarget({ center: [200, 0], zoom: 5 });
+  assert.deepEqual(guard.getPinnedTargets(), [first, second]);
+  manager.removeNextTarget(0);
+  assert.deepEqual(guard.getPinnedTargets(), [second], 'removed target unpinned');
+  manager.dispose();
+})();
+
+console.log('cache guard tests passed');
@@ -0,0 +1,175 @@
+import assert from 'assert/strict';
+import FetchTileLoader from '../src/FetchTileLoader.ts';
+import PersistentTileCache from '../src/PersistentTileCache.ts';
+import { PrefetchCategory } from '../src/PrefetchConstants.ts';
+import TileState from 'ol/TileState.js';
+import TileLayer from 'ol/layer/Tile.js';
+import XYZ from 'ol/source/XYZ.js';
+import type Tile from 'ol/Tile.js';
+import type { LoadFunction } from 'ol/Tile.js';
+import type { PrefetchTileLoad } from '../src/PrefetchTypes.ts';
+import { createImageTile, createStorage, stubFetch } from './fixtures.ts';
+
+/**
+ * A layer whose source's own load function is `tileLoadFunction`, with the
+ * prefetch loads of its tiles.
+ */
+const createUrlLayer = (tileLoadFunction: LoadFunction) => {
+  const layer = new TileLayer({ source: new XYZ({ tileLoadFunction }) });
+  const loads = new Map<Tile, PrefetchTileLoad>();
+  return {
+    layer,
+    getLoad: (tile: Tile) => loads.get(tile) ?? null,
+    /** A tile, prefetched unless `prefetch` is false. */
+    createTile: (prefetch = true) => {
+      const tile = createImageTile();
+      if (prefetch) {
+        loads.set(tile, {
+          category: PrefetchCategory.SPATIAL_ACTIVE,
+          layer,
+          signal: new AbortController().signal,
+        });
+      }
+      return tile;
+    },
+    /** Load the tile through the source's current load function. */
+    load: async (tile: Tile, src: string) => {
+      layer.getSource()!.getTileLoadFunction()(tile, src);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    },
+  };
+};
+
+const fetchLoaderTest = async () => {
+  const sourceLoadFunction: LoadFunction = () => {};
+  const { layer, getLoad, createTile, load } = createUrlLayer(sourceLoadFunction);
+  const requests: Array<{ url: string; auth: string | null; key: string | null }> = [];
+  const restoreFetch = stubFetch(async (url, init) => {
+    const headers = new Headers(init.headers);
+    requests.push({
+      url,
+      auth: headers.get('Authorization'),
+      key: headers.get('X-Key'),
+    });
+    if (url.endsWith('/missing')) {
+      return new Response(null, { status: 404 });
+    }
+    return headers.get('Authorization') === 'Bearer fresh'
+      ? new Response(new Blob(['tile']))
+      : new Response(null, { status: 401 });
+  });
+
+  try {
+    const refreshes: boolean[] = [];
+    const fetched: string[] = [];
+    const loader = new FetchTileLoader(
+      {
+        headers: { 'X-Key': 'shared' },
+        getToken: async (_layer, refresh) => {
+          refreshes.push(refresh);
+          return refresh ? 'fresh' : 'stale';
+        },
+      },
+      getLoad,
+      (url) => fetched.push(url),
+    );
+    loader.attach(layer);
+    const tile = createTile();
+    await load(tile, 'https://tiles/5/0/0');
+
+    assert.deepEqual(refreshes, [false, true], 'one refresh after a 401');
+    assert.deepEqual(
+      requests.map((r) => r.auth),
+      ['Bearer stale', 'Bearer fresh'],
+    );
+    assert.ok(requests.every((r) => r.key === 'shared'));
+    assert.ok(tile.getImage().src.startsWith('blob:'));
+    assert.deepEqual(fetched, ['https://tiles/5/0/0']);
+
+    const missing = createTile();
+    await load(missing, 'https://tiles/missing');
+    assert.equal(missing.getState(), TileState.ERROR);
+    assert.equal(loader.getError(missing), 'HTTP 404');
+    assert.equal(refreshes.length, 2, 'the refreshed token is reused');
+
+    // The map's own loads go to the source's load function.
+    const mapTile = createTile(false);
+    await load(mapTile, 'https://tiles/5/1/0');
+    assert.equal(requests.length, 3);
+    assert.equal(mapTile.getImage().src, '');
+
+    loader.dispose();
+    assert.equal(
+      layer.getSource()!.getTileLoadFunction(),
+      sourceLoadFunction,
+      'load function restored',
+    );
+  } finally {
+    restoreFetch();
+  }
+};
+
+const stackedLoadersTest = async () => {
+  // A persistent cache and a fetch loader on one source, attached in the
+  // manager's order: the loader fetches prefetch loads and stores them, the
+  // cache serves the map's own loads.  Either can be disposed first.
+  const loaded: string[] = [];
+  const sourceLoadFunction: LoadFunction = (_tile, src) => void loaded.push(src);
+  const { layer, getLoad, createTile, load } = createUrlLayer(sourceLoadFunction);
+  const requests: string[] = [];
+  const restoreFetch = stubFetch(async (url) => {
+    requests.push(url);
+    return new Response(new Blob(['tile']));
+  });
+
+  try {
+    const cache = new PersistentTileCache({ storage: createStorage(new Map()) }, getLoad);
+    const loader = new FetchTileLoader(
+      { headers: { 'X-Key': 'k' } },
+      getLoad,
+      (url, data) => cache.put(url, data),
+    );
+    cache.attach(layer);
+    loader.attach(layer);
+
+    const prefetched = createTile();
+    await load(prefetched, 'https://tiles/5/0/0');
+    assert.ok(prefetched.getImage().src.startsWith('blob:'), 'fetched by the loader');
+    assert.equal(loaded.length, 0, 'not handed on');
+    assert.ok(cache.isStored('https://tiles/5/0/0'), 'and stored');
+
+    await load(createTile(false), 'https://tiles/5/0/0');
+    await load(createTile(false), 'https://tiles/5/1/0');
+    assert.equal(loaded.length, 2);
+    assert.ok(loaded[0].startsWith('blob:'), 'the map is served from storage');
+    assert.equal(loaded[1], 'https://tiles/5/1/0');
+    assert.equal(requests.length, 1);
+
+    cache.dispose();
+    await load(createTile(), 'https://tiles/5/2/0');
+    assert.equal(requests.length, 2, 'the loader stays attached');
+    await load(createTile(false), 'https://tiles/5/0/0');
+    assert.equal(loaded[2], 'https://tiles/5/0/0', 'no longer served from storage');
+
+    loader.dispose();
+    assert.equal(
+      layer.getSource()!.getTileLoadFunction(),
+      sourceLoadFunction,
+      'load function restored',
+    );
+  } finally {
+    restoreFetch();
+  }
+};
+
+// One at a time, as they stub the global fetch.
+(async () => {
+  await fetchLoaderTest();
+  await stackedLoadersTest();
+})().then(
+  () => console.log('fetch loader tests passed'),
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,169 @@
+import Observable from 'ol/Observable.js';
+import TileState from 'ol/TileState.js';
+import View from 'ol/View.js';
+import type ImageTile from 'ol/ImageTile.js';
+import type OLMap from 'ol/Map.js';
+import {
+  DEFAULT_CATEGORY_PRIORITIES,
+  PrefetchCategory,
+} from '../src/PrefetchConstants.ts';
+import type {
+  PrefetchPlanContext,
+  PrefetchTask,
+  PrefetchTileLayer,
+  PrefetchTileStorage,
+} from '../src/PrefetchTypes.ts';
+
+export const createTileRange = (
+  minX: number,
+  maxX: number,
+  minY: number,
+  maxY: number,
+) => ({
+  minX,
+  maxX,
+  minY,
+  maxY,
+  containsXY: (x: number, y: number) => x >= minX && x <= maxX && y >= minY && y <= maxY,
+});
+
+/** 100-unit tiles; extents wider than 300 span 2x2 tiles, others one. */
+export const createTileGrid = () => ({
+  getMinZoom: () => 0,
+  getMaxZoom: () => 18,
+  getResolution: () => 1,
+  getTileCoordExtent: ([, x, y]: number[]) => [
+    x * 100,
+    y * 100,
+    x * 100 + 100,
+    y * 100 + 100,
+  ],
+  getTileRangeForExtentAndZ: (extent: number[], _z: number) => {
+    const width = extent[2] - extent[0];
+    if (width > 300) {
+      return createTileRange(0, 1, 0, 1);
+    }
+    return createTileRange(0, 0, 0, 0);
+  },
+});
+
+export const createSource = (tileGrid: object = createTileGrid()) => {
+  return {
+    getTileGridForProjection: () => tileGrid,
+    getTile: () => ({
+      getState: () => TileState.IDLE,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    }),
+  };
+};
+
+/** A layer whose source has not loaded any tiles. */
+export const createLayer = (name: string, tileGrid?: object) => {
+  const source = createSource(tileGrid);
+  const layer = {
+    name,
+    get: (key: string) => (key === 'name' ? name : undefined),
+    getSource: () => source,
+  };
+  return layer as unknown as typeof layer & PrefetchTileLayer;
+};
+
+export const createView = () => ({
+  isDef: () => true,
+  getState: () => ({ center: [0, 0], resolution: 1, rotation: 0 }),
+  getZoom: () => 5,
+  getProjection: () => ({}),
+  getResolutionForZoom: () => 1,
+  getCenter: () => [0, 0],
+  getResolution: () => 1,
+});
+
+/** A 256x256 map showing zoom 5 around the origin. */
+export const createMap = () => {
+  const map = {
+    getView: () => createView(),
+    getSize: () => [256, 256] as [number, number],
+    getPixelRatio: () => 1,
+  };
+  return map as unknown as typeof map & OLMap;
+};
+
+/** A map the manager can listen to, for driving it through map events. */
+export const createManagerMap = () => Object.assign(new Observable(), createMap());
+
+const taskLayer = createLayer('tasks');
+
+export const createTask = (
+  id: string,
+  priority: number,
+  category: PrefetchTask['category'] = PrefetchCategory.SPATIAL_ACTIVE,
+): PrefetchTask => ({
+  id,
+  priority,
+  distance: 0,
+  category,
+  layer: taskLayer,
+  tileCoord: [0, 0, 0],
+  timestamp: 0,
+});
+
+/** What planner strategies get for a 256x256 view of the origin. */
+export const createPlanContext = (
+  overrides: Partial<PrefetchPlanContext> = {},
+): PrefetchPlanContext => {
+  const view = new View({ center: [0, 0], zoom: 2 });
+  const mapSize: [number, number] = [256, 256];
+  return {
+    map: createMap(),
+    view,
+    projection: view.getProjection(),
+    mapSize,
+    center: view.getCenter()!,
+    resolution: view.getResolution()!,
+    rotation: 0,
+    zoom: view.getZoom()!,
+    viewExtent: view.calculateExtent(mapSize),
+    activeLayer: null,
+    backgroundLayers: [],
+    nextNavLayer: null,
+    nextTargets: [],
+    categoryPriorities: { ...DEFAULT_CATEGORY_PRIORITIES },
+    panVelocity: null,
+    ...overrides,
+  };
+};
+
+/** A loading image tile; load functions set its image's `src` or its state. */
+export const createImageTile = () => {
+  let state: number = TileState.LOADING;
+  const image = { src: '' };
+  const tile = {
+    getImage: () => image,
+    getState: () => state,
+    setState: (newState: number) => void (state = newState),
+    addEventListener: () => {},
+    removeEventListener: () => {},
+  };
+  return tile as unknown as typeof tile & ImageTile;
+};
+
+/** Tile storage backed by the given map. */
+export const createStorage = (stored: Map<string, Blob>): PrefetchTileStorage => ({
+  get: async (key) => stored.get(key) ?? null,
+  has: async (key) => stored.has(key),
+  put: async (key, data) => void stored.set(key, data),
+  delete: async (key) => void stored.delete(key),
+  clear: async () => stored.clear(),
+});
+
+/** Replaces the global `fetch` until the returned function is called. */
+export const stubFetch = (
+  fetch: (url: string, init: RequestInit) => Promise<Response>,
+): (() => void) => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = fetch as typeof globalThis.fetch;
+  return () => {
+    globalThis.fetch = originalFetch;
+  };
+};
@@ -0,0 +1,160 @@
+import assert from 'assert/strict';
+import OfflineDownload from '../src/OfflineDownload.ts';
+import {
+  DownloadState,
+  PrefetchEventType,
+  REGION_TILE_CHUNK,
+} from '../src/PrefetchConstants.ts';
+import { createStorage, stubFetch } from './fixtures.ts';
+
+const downloadTest = async () => {
+  const stored = new Map<string, Blob>([['https://tiles/a', new Blob(['a'])]]);
+  const restoreFetch = stubFetch(async (url) =>
+    url.endsWith('/bad')
+      ? new Response(null, { status: 404 })
+      : new Response(new Blob(['tile'])),
+  );
+
+  try {
+    const download = new OfflineDownload(
+      ['https://tiles/a', 'https://tiles/b', 'https://tiles/c', 'https://tiles/bad'],
+      createStorage(stored),
+      2,
+    );
+    const ended = new Promise<void>((resolve) =>
+      download.once(PrefetchEventType.DOWNLOADEND, () => resolve()),
+    );
+    download.resume();
+    await ended;
+
+    const progress = download.getProgress();
+    assert.equal(progress.state, DownloadState.DONE);
+    assert.deepEqual(
+      [progress.total, progress.stored, progress.skipped, progress.failed],
+      [4, 2, 1, 1],
+    );
+    assert.equal(progress.bytes, 8);
+    assert.equal(progress.counting, false);
+    assert.ok(stored.has('https://tiles/c'), 'fetched tiles are stored');
+  } finally {
+    restoreFetch();
+  }
+};
+
+const downloadControlTest = async () => {
+  const stored = new Map<string, Blob>();
+  const requests = new Map<
+    string,
+    { signal: AbortSignal; respond: (ok: boolean) => void }
+  >();
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+  const respond = async (url: string, ok: boolean) => {
+    const request = requests.get(url)!;
+    requests.delete(url);
+    request.respond(ok);
+    await settle();
+  };
+  const restoreFetch = stubFetch(
+    (url, init) =>
+      new Promise<Response>((resolve, reject) => {
+        const signal = init.signal!;
+        signal.addEventListener('abort', () => reject(signal.reason));
+        requests.set(url, {
+          signal,
+          respond: (ok) =>
+            resolve(
+              ok ? new Response(new Blob(['tile'])) : new Response(null, { status: 500 }),
+            ),
+        });
+      }),
+  );
+
+  try {
+    // URLs are enumerated a chunk at a time; duplicates are downloaded once.
+    const urls = function* () {
+      for (let i = 0; i <= REGION_TILE_CHUNK; i++) {
+        yield `https://tiles/${i}`;
+      }
+      yield 'https://tiles/0';
+    };
+    const large = new OfflineDownload(urls(), createStorage(stored), 1);
+    let ends = 0;
+    large.on(PrefetchEventType.DOWNLOADEND, () => ends++);
+    large.resume();
+    assert.deepEqual(
+      [large.getProgress().total, large.getProgress().counting],
+      [REGION_TILE_CHUNK, true],
+    );
+    await settle();
+    assert.deepEqual(
+      [large.getProgress().total, large.getProgress().counting],
+      [REGION_TILE_CHUNK + 1, false],
+    );
+    assert.deepEqual([...requests.keys()], ['https://tiles/0']);
+
+    // Cancelling aborts in-flight requests without counting them as failed.
+    const { signal } = requests.get('https://tiles/0')!;
+    large.cancel();
+    await settle();
+    assert.ok(signal.aborted, 'in-flight request aborted');
+    assert.equal(large.getState(), DownloadState.CANCELLED);
+    assert.equal(large.getProgress().failed, 0);
+    assert.equal(ends, 1);
+    large.resume();
+    assert.equal(large.getState(), DownloadState.CANCELLED, 'cancelled for good');
+    requests.clear();
+
+    const download = new OfflineDownload(
+      ['https://tiles/a', 'https://tiles/b', 'https://tiles/c'],
+      createStorage(stored),
+      1,
+    );
+    download.resume();
+    await settle();
+
+    // Pausing lets the in-flight request finish but starts no new ones.
+    download.pause();
+    await respond('https://tiles/a', false);
+    assert.equal(download.getState(), DownloadState.PAUSED);
+    assert.equal(download.getProgress().failed, 1);
+    assert.equal(requests.size, 0);
+
+    // Resuming retries the failed tile before moving on.
+    download.resume();
+    await settle();
+    assert.deepEqual([...requests.keys()], ['https://tiles/a']);
+    await respond('https://tiles/a', true);
+    await respond('https://tiles/b', false);
+    await respond('https://tiles/c', true);
+    assert.equal(download.getState(), DownloadState.DONE);
+    assert.deepEqual(
+      [download.getProgress().stored, download.getProgress().failed],
+      [2, 1],
+    );
+
+    // A finished download with failures can be resumed to retry them.
+    download.resume();
+    await settle();
+    await respond('https://tiles/b', true);
+    assert.equal(download.getState(), DownloadState.DONE);
+    assert.deepEqual(
+      [download.getProgress().stored, download.getProgress().failed],
+      [3, 0],
+    );
+    assert.ok(stored.has('https://tiles/b'), 'retried tile stored');
+  } finally {
+    restoreFetch();
+  }
+};
+
+// One at a time, as they stub the global fetch.
+(async () => {
+  await downloadTest();
+  await downloadControlTest();
+})().then(
+  () => console.log('offline download tests passed'),
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,142 @@
+import assert from 'assert/strict';
+import PersistentTileCache from '../src/PersistentTileCache.ts';
+import PrefetchPlanner from '../src/PrefetchPlanner.ts';
+import PrefetchStats from '../src/PrefetchStats.ts';
+import {
+  DEFAULT_CATEGORY_PRIORITIES,
+  PrefetchCategory,
+} from '../src/PrefetchConstants.ts';
+import Polygon from 'ol/geom/Polygon.js';
+import TileLayer from 'ol/layer/Tile.js';
+import XYZ from 'ol/source/XYZ.js';
+import type Tile from 'ol/Tile.js';
+import type { PrefetchTileLoad } from '../src/PrefetchTypes.ts';
+import {
+  createImageTile,
+  createLayer,
+  createMap,
+  createStorage,
+  stubFetch,
+} from './fixtures.ts';
+
+const storageTest = async () => {
+  const stored = new Map<string, Blob>();
+  const cache = new PersistentTileCache({ storage: createStorage(stored), maxBytes: 8 });
+  await cache.put('https://tiles/5/0/0', new Blob(['tile']));
+  await cache.put('https://tiles/5/1/0', new Blob(['tile']));
+  await cache.put('https://tiles/5/2/0', new Blob(['tile']));
+  assert.ok(
+    !cache.isStored('https://tiles/5/0/0'),
+    'oldest tile evicted beyond maxBytes',
+  );
+  assert.deepEqual(cache.getSize(), { tiles: 2, bytes: 8 });
+
+  // Stored tiles are not queued and count as loaded.
+  const planner = new PrefetchPlanner(1, { persistentCache: cache });
+  const stats = new PrefetchStats();
+  const layer = createLayer('primary');
+  Object.assign(layer.getSource(), {
+    getTileUrlFunction:
+      () =>
+      ([z, x, y]: number[]) =>
+        `https://tiles/${z}/${x}/${y}`,
+  });
+  const job = {};
+  const square = new Polygon([
+    [
+      [0, 0],
+      [400, 0],
+      [400, 400],
+      [0, 400],
+      [0, 0],
+    ],
+  ]);
+  const queue = planner.buildAreaQueue(
+    createMap(),
+    square,
+    { minZoom: 5, maxZoom: 5 },
+    [layer],
+    { ...DEFAULT_CATEGORY_PRIORITIES, [PrefetchCategory.AREA]: 7 },
+    stats,
+    job,
+  );
+  assert.ok(!queue.some((t) => t.tileCoord.join('/') === '5/1/0'));
+  assert.equal(queue.length, 3);
+  const progress = stats.getJobProgress(job);
+  assert.deepEqual([progress.total, progress.loaded], [4, 1]);
+
+  // The index survives a reload; expired tiles are not served.
+  cache.dispose();
+  const reloaded = new PersistentTileCache({ storage: createStorage(stored) });
+  await reloaded.whenReady();
+  assert.ok(reloaded.isStored('https://tiles/5/2/0'));
+  const expired = new PersistentTileCache({ storage: createStorage(stored), ttl: 0 });
+  assert.equal(await expired.get('https://tiles/5/2/0'), null);
+  reloaded.dispose();
+  expired.dispose();
+};
+
+const loadTest = async () => {
+  const prefetched = createImageTile();
+  const abandoned = createImageTile();
+  const controller = new AbortController();
+  controller.abort();
+  const loaded: string[] = [];
+  const layer = new TileLayer({
+    source: new XYZ({ tileLoadFunction: (_tile, src) => void loaded.push(src) }),
+  });
+  const loads = new Map<Tile, PrefetchTileLoad>([
+    [
+      prefetched,
+      { category: PrefetchCategory.AREA, layer, signal: new AbortController().signal },
+    ],
+    [abandoned, { category: PrefetchCategory.AREA, layer, signal: controller.signal }],
+  ]);
+  const cache = new PersistentTileCache(
+    { storage: createStorage(new Map()) },
+    (tile) => loads.get(tile) ?? null,
+  );
+  cache.attach(layer);
+  const load = async (tile: Tile, src: string) => {
+    layer.getSource()!.getTileLoadFunction()(tile, src);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  };
+
+  const fetched: string[] = [];
+  const restoreFetch = stubFetch(async (url) => {
+    fetched.push(url);
+    return new Response(new Blob(['fresh']));
+  });
+  try {
+    // Prefetch loads are stored and handed to the original load function.
+    await load(prefetched, 'https://tiles/5/3/0');
+    assert.equal(loaded.length, 1);
+    assert.ok(loaded[0].startsWith('blob:'), 'loaded from the fetched data');
+    assert.ok(cache.isStored('https://tiles/5/3/0'));
+
+    // The map's own loads are left to the original load function.
+    await load(createImageTile(), 'https://tiles/5/4/0');
+    assert.deepEqual(loaded.slice(1), ['https://tiles/5/4/0']);
+    assert.ok(!cache.isStored('https://tiles/5/4/0'));
+
+    // Abandoned prefetches are dropped.
+    await load(abandoned, 'https://tiles/5/5/0');
+    assert.equal(loaded.length, 2);
+    assert.deepEqual(fetched, ['https://tiles/5/3/0']);
+  } finally {
+    restoreFetch();
+    cache.dispose();
+  }
+};
+
+// One at a time, as they stub the global fetch.
+(async () => {
+  await storageTest();
+  await loadTest();
+})().then(
+  () => console.log('persistent cache tests passed'),
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
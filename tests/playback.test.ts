@@ -0,0 +1,112 @@
+import assert from 'assert/strict';
+import Playback from '../src/Playback.ts';
+import PrefetchPlanner from '../src/PrefetchPlanner.ts';
+import PrefetchStats from '../src/PrefetchStats.ts';
+import {
+  DEFAULT_CATEGORY_PRIORITIES,
+  PrefetchCategory,
+} from '../src/PrefetchConstants.ts';
+import TileState from 'ol/TileState.js';
+import type { PlaybackClock } from '../src/Playback.ts';
+import type { PrefetchTileLayer } from '../src/PrefetchTypes.ts';
+import { createLayer, createMap } from './fixtures.ts';
+
+(() => {
+  // A clock whose timers run when the test advances it.
+  type Timer = { at: number; callback: () => void };
+  type Handle = ReturnType<PlaybackClock['setTimeout']>;
+  let now = 0;
+  let timers: Timer[] = [];
+  const clock: PlaybackClock = {
+    now: () => now,
+    setTimeout: (callback, delay) => {
+      const timer = { at: now + delay, callback };
+      timers.push(timer);
+      return timer as unknown as Handle;
+    },
+    clearTimeout: (timer) => {
+      timers = timers.filter((t) => t !== (timer as unknown as Timer));
+    },
+  };
+  const advance = (ms: number) => {
+    const end = now + ms;
+    let due: Timer | undefined;
+    while ((due = timers.filter((t) => t.at <= end).sort((a, b) => a.at - b.at)[0])) {
+      timers = timers.filter((t) => t !== due);
+      now = due.at;
+      due.callback();
+    }
+    now = end;
+  };
+
+  const states = [TileState.LOADED, TileState.LOADED, TileState.IDLE, TileState.IDLE];
+  const frames = states.map((_, i) => {
+    const layer = createLayer(`frame ${i}`);
+    Object.assign(layer.getSource(), {
+      getTile: () => ({
+        getState: () => states[i],
+        addEventListener: () => {},
+        removeEventListener: () => {},
+      }),
+    });
+    return layer;
+  });
+  const stats = new PrefetchStats();
+  const stalls: Array<[number, number | undefined]> = [];
+  const playback = new Playback(
+    { frames, frameRate: 50, lookAhead: 2 },
+    {
+      getFrameLayer: (frame) => frame as PrefetchTileLayer,
+      getProgress: (job) => stats.getJobProgress(job),
+      onStall: (index, _deadline, progress) => stalls.push([index, progress?.loaded]),
+    },
+    clock,
+  );
+  const planner = new PrefetchPlanner(2, { strategies: [playback] });
+  const plan = () =>
+    planner.buildViewportQueue(
+      createMap(),
+      null,
+      [],
+      { ...DEFAULT_CATEGORY_PRIORITIES, [PrefetchCategory.PLAYBACK]: 0.5 },
+      stats,
+    );
+
+  assert.equal(playback.setFrame(1, false), true);
+  assert.equal(playback.setFrame(4, false), false);
+  // Loaded frames are not queued but still count towards readiness.
+  assert.deepEqual(
+    plan().map((t) => [t.layer.get('name'), t.priority, t.category]),
+    [
+      ['frame 2', 0.5 + 1 * (0.1 / 3), PrefetchCategory.PLAYBACK],
+      ['frame 3', 0.5 + 2 * (0.1 / 3), PrefetchCategory.PLAYBACK],
+    ],
+  );
+  assert.equal(playback.isFrameReady(1), true);
+  assert.equal(playback.isFrameReady(2), false);
+  assert.equal(playback.getFrameProgress(0), null, 'played frames are not planned');
+  assert.equal(playback.getDeadline(2), null, 'paused frames have no deadline');
+
+  // Frame 1 is ready when shown; frame 2 is not when it is due 20ms later.
+  playback.setFrame(1, true);
+  plan();
+  assert.equal(playback.getDeadline(1), 0);
+  assert.equal(playback.getDeadline(3), 40);
+  advance(19);
+  assert.deepEqual(stalls, []);
+  advance(1);
+  assert.deepEqual(stalls, [[2, 0]]);
+  advance(100);
+  assert.deepEqual(stalls, [[2, 0]], 'checks wait for the next frame');
+
+  // Buffered: the player shows frame 2 once it has loaded.
+  states[2] = TileState.LOADED;
+  playback.setFrame(2, true);
+  plan();
+  advance(10);
+  assert.deepEqual(stalls, [[2, 0]], 'no stall while frames are ready in time');
+  playback.dispose();
+  assert.deepEqual(timers, [], 'dispose clears the pending check');
+})();
+
+console.log('playback tests passed');
@@ -1,58 +1,89 @@
 import assert from 'assert/strict';
+import PrefetchManager from '../src/PrefetchManager.ts';
 import PrefetchPlanner from '../src/PrefetchPlanner.ts';
 import PrefetchStats from '../src/PrefetchStats.ts';
-import { PrefetchCategory } from '../src/PrefetchConstants.ts';
+import TileLoader from '../src/TileLoader.ts';
+import RetryPolicy from '../src/RetryPolicy.ts';
+import CircuitBreaker from '../src/CircuitBreaker.ts';
+import PrefetchBudget from '../src/PrefetchBudget.ts';
+import { resolveTargetView } from '../src/PlannerStrategies.ts';
+import AdaptiveConcurrency from '../src/AdaptiveConcurrency.ts';
+import CategoryRegistry from '../src/CategoryRegistry.ts';
+import {
+  CircuitState,
+  PrefetchCategory,
+  PrefetchEventType,
+} from '../src/PrefetchConstants.ts';
 import TileState from 'ol/TileState.js';
+import Polygon from 'ol/geom/Polygon.js';
+import TileLayer from 'ol/layer/Tile.js';
+import XYZ from 'ol/source/XYZ.js';
+import { get as getProjection } from 'ol/proj.js';
+import Observable, { unByKey } from 'ol/Observable.js';
+import MapEventType from 'ol/MapEventType.js';
+import View from 'ol/View.js';
+import {
+  createLayer,
+  createManagerMap,
+  createMap,
+  createTask,
+  createTileGrid,
+  createTileRange,
+  createView,
+} from './fixtures.ts';
 
-const createTileRange = (minX: number, maxX: number, minY: number, maxY: number) => ({
-  minX,
-  maxX,
-  minY,
-  maxY,
-  containsXY: (x: number, y: number) => x >= minX && x <= maxX && y >= minY && y <= maxY,
-});
-
-const createTileGrid = () => ({
-  getTileRangeForExtentAndZ: (extent: number[], _z: number) => {
-    const width = extent[2] - extent[0];
-    if (width > 300) {
-      return createTileRange(0, 1, 0, 1);
-    }
-    return createTileRange(0, 0, 0, 0);
-  },
-});
-
-const createSource = () => {
-  const tileGrid = createTileGrid();
-  return {
-    getTileGridForProjection: () => tileGrid,
-    getTile: () => ({
-      getState: () => TileState.IDLE,
-    }),
+/** A tile that starts loading when asked and settles on `finish`; both notify. */
+const createLoadingTile = (tileCoord: number[] = [0, 0, 0]) => {
+  const listeners = new Set<() => void>();
+  const tile = {
+    state: TileState.IDLE as number,
+    getState: () => tile.state,
+    getTileCoord: () => tileCoord,
+    release: () => {},
+    addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) => listeners.delete(listener),
+    load: () => tile.finish(TileState.LOADING),
+    finish: (state: number) => {
+      tile.state = state;
+      listeners.forEach((listener) => listener());
+    },
   };
+  return tile;
 };
 
-const createLayer = (name: string) => {
-  const source = createSource();
+/** A layer whose tiles can be dispatched, and settled by the test. */
+const createLoadingLayer = (name: string) => {
+  const tiles = new Map<string, ReturnType<typeof createLoadingTile>>();
+  const source = {
+    getTileGridForProjection: () => createTileGrid(),
+    getTile: (z: number, x: number, y: number) => {
+      const key = `${z}/${x}/${y}`;
+      if (!tiles.has(key)) {
+        tiles.set(key, createLoadingTile([z, x, y]));
+      }
+      return tiles.get(key);
+    },
+    // The tiles double as the source's tile cache.
+    getTileCacheForProjection: () => ({
+      containsKey: (key: string) => tiles.has(key),
+      peek: (key: string) => tiles.get(key),
+      remove: (key: string) => tiles.delete(key),
+    }),
+  };
   return {
     name,
+    tiles,
+    get: (key: string) => (key === 'name' ? name : undefined),
     getSource: () => source,
+    isVisible: () => false,
   };
 };
 
-const createView = () => ({
-  isDef: () => true,
-  getState: () => ({ center: [0, 0], resolution: 1, rotation: 0 }),
-  getZoom: () => 5,
-  getProjection: () => ({}),
-  getResolutionForZoom: () => 1,
-});
-
-const createMap = () => ({
-  getView: () => createView(),
-  getSize: () => [256, 256] as [number, number],
-  getPixelRatio: () => 1,
-});
+/** A manager map whose view can also convert resolutions to zooms. */
+const createPlanningMap = () =>
+  Object.assign(createManagerMap(), {
+    getView: () => ({ ...createView(), getZoomForResolution: () => 5 }),
+  });
 
 const buildQueue = (categoryPriorities: Record<string, number>) => {
   const planner = new PrefetchPlanner(2);
@@ -70,12 +101,13 @@ const buildQueue = (categoryPriorities: Record<string, number>) => {
     createMap() as any,
     activeLayer as any,
     backgroundLayers as any,
+    activeLayer as any,
     nextTargets as any,
     categoryPriorities as any,
     stats,
   );
 
-  return { queue, bgLayerLow, bgLayerHigh };
+  return { queue, activeLayer, bgLayerLow, bgLayerHigh };
 };
 
 (() => {
@@ -83,11 +115,11 @@ const buildQueue = (categoryPriorities: Record<string, number>) => {
     [PrefetchCategory.SPATIAL_ACTIVE]: 1,
     [PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT]: 5,
     [PrefetchCategory.BACKGROUND_LAYERS_BUFFER]: 7,
-    [PrefetchCategory.NEXT_NAV_ACTIVE]: 2,
+    [PrefetchCategory.NEXT_NAV_PRIMARY]: 2,
     [PrefetchCategory.NEXT_NAV_BACKGROUND]: 6,
   };
 
-  const { queue, bgLayerLow, bgLayerHigh } = buildQueue(priorities);
+  const { queue, activeLayer, bgLayerLow, bgLayerHigh } = buildQueue(priorities);
   assert.ok(queue.length > 0, 'queue should contain tasks');
 
   let lastPriority = -Infinity;
@@ -107,6 +139,22 @@ const buildQueue = (categoryPriorities: Record<string, number>) => {
   const highIndex = bgTasks.findIndex((task) => (task.layer as unknown) === bgLayerHigh);
   assert.ok(lowIndex !== -1 && highIndex !== -1, 'missing background layer tasks');
   assert.ok(lowIndex < highIndex, 'background layer priority ordering broken');
+
+  const bgBufferTasks = queue.filter(
+    (task) => task.category === PrefetchCategory.BACKGROUND_LAYERS_BUFFER,
+  );
+  assert.ok(
+    bgBufferTasks.length >= 2,
+    'expected buffer tasks for both background layers',
+  );
+  assert.ok(
+    bgBufferTasks.every((task) => (task.layer as unknown) !== activeLayer),
+    'active layer must not get background buffer tasks',
+  );
+  assert.ok(
+    bgBufferTasks.every((task) => task.priority > bgTasks[bgTasks.length - 1].priority),
+    'background buffer tasks should follow background viewport tasks',
+  );
 })();
 
 (() => {
@@ -114,7 +162,7 @@ const buildQueue = (categoryPriorities: Record<string, number>) => {
     [PrefetchCategory.SPATIAL_ACTIVE]: 3,
     [PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT]: 5,
     [PrefetchCategory.BACKGROUND_LAYERS_BUFFER]: 7,
-    [PrefetchCategory.NEXT_NAV_ACTIVE]: 1,
+    [PrefetchCategory.NEXT_NAV_PRIMARY]: 1,
     [PrefetchCategory.NEXT_NAV_BACKGROUND]: 6,
   };
 
@@ -122,9 +170,1292 @@ const buildQueue = (categoryPriorities: Record<string, number>) => {
   const firstCategory = queue[0]?.category;
   assert.equal(
     firstCategory,
-    PrefetchCategory.NEXT_NAV_ACTIVE,
+    PrefetchCategory.NEXT_NAV_PRIMARY,
     'expected next-nav tasks to be scheduled first when highest priority',
   );
 })();
 
-console.log('priority-order tests passed');
+(() => {
+  // The background buffer has its own default, not the spatial buffer factor.
+  const widths: number[] = [];
+  const bgLayer = createLayer('bg', {
+    ...createTileGrid(),
+    getTileRangeForExtentAndZ: (extent: number[]) => {
+      widths.push(extent[2] - extent[0]);
+      return createTileRange(0, 0, 0, 0);
+    },
+  });
+  new PrefetchPlanner(3).buildViewportQueue(
+    createMap() as any,
+    null,
+    [{ layer: bgLayer, priority: 1 }] as any,
+    { [PrefetchCategory.BACKGROUND_LAYERS_BUFFER]: 7 } as any,
+    new PrefetchStats(),
+  );
+  assert.equal(Math.max(...widths), 256 * 1.25);
+})();
+
+(() => {
+  const planner = new PrefetchPlanner(2, { zoomLevelsAbove: 1, zoomLevelsBelow: 1 });
+  const activeLayer = createLayer('active');
+  const bgLayer = createLayer('bg');
+  const priorities = {
+    [PrefetchCategory.SPATIAL_ACTIVE]: 1,
+    [PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT]: 2,
+    [PrefetchCategory.BACKGROUND_LAYERS_BUFFER]: 3,
+    [PrefetchCategory.NEXT_NAV_PRIMARY]: 4,
+    [PrefetchCategory.NEXT_NAV_BACKGROUND]: 5,
+  };
+
+  const queue = planner.buildViewportQueue(
+    createMap() as any,
+    activeLayer as any,
+    [{ layer: bgLayer, priority: 1 }] as any,
+    priorities as any,
+    new PrefetchStats(),
+  );
+
+  const zoomsFor = (layer: unknown) =>
+    new Set(
+      queue.filter((t) => (t.layer as unknown) === layer).map((t) => t.tileCoord[0]),
+    );
+  assert.deepEqual([...zoomsFor(activeLayer)].sort(), [4, 5, 6]);
+  assert.deepEqual([...zoomsFor(bgLayer)], [5], 'background pyramid is opt-in');
+
+  const parent = queue.find((t) => t.tileCoord[0] === 4);
+  const child = queue.find((t) => t.tileCoord[0] === 6);
+  assert.ok(
+    parent && child && parent.priority < child.priority,
+    'parents before children',
+  );
+  assert.equal(parent?.category, PrefetchCategory.SPATIAL_ACTIVE);
+})();
+
+(() => {
+  // Parent tiles of a background layer never tie with another layer's
+  // current-zoom tiles, whatever the layer priorities.
+  const planner = new PrefetchPlanner(2, {
+    backgroundBufferFactor: 2,
+    zoomLevelsAbove: 1,
+    zoomLevelsForBackground: true,
+  });
+  const queue = planner.buildViewportQueue(
+    createMap() as any,
+    null,
+    [
+      { layer: createLayer('bg-1'), priority: 1 },
+      { layer: createLayer('bg-15'), priority: 15 },
+    ] as any,
+    { [PrefetchCategory.BACKGROUND_LAYERS_BUFFER]: 3 } as any,
+    new PrefetchStats(),
+  );
+  const buffer = queue.filter(
+    (t) => t.category === PrefetchCategory.BACKGROUND_LAYERS_BUFFER,
+  );
+  const firstParent = buffer.findIndex((t) => t.tileCoord[0] === 4);
+  assert.ok(firstParent > 0);
+  assert.ok(
+    buffer.slice(firstParent).every((t) => t.tileCoord[0] === 4),
+    'all current-zoom buffer tiles first',
+  );
+})();
+
+(() => {
+  // The pan velocity only leans rebuilds while the gesture lasts.
+  const map = createManagerMap();
+  const manager = new PrefetchManager({ map, directionalPrefetch: true });
+  const tracker = (manager as any).panTracker_;
+  map.dispatchEvent(MapEventType.MOVESTART);
+  tracker.sample([0, 0], 1, 0);
+  tracker.sample([100, 0], 1, 100);
+  assert.deepEqual(tracker.getVelocity(), [1, 0]);
+  map.dispatchEvent(MapEventType.MOVEEND);
+  assert.equal(tracker.getVelocity(), null, 'no stale velocity after the gesture');
+  manager.dispose();
+})();
+
+(() => {
+  const planner = new PrefetchPlanner(1);
+  const wideGrid = {
+    ...createTileGrid(),
+    getTileRangeForExtentAndZ: () => createTileRange(0, 3, 0, 3),
+  };
+  const bgLayer = createLayer('bg', wideGrid);
+  const map = {
+    ...createMap(),
+    getView: () => ({
+      ...createView(),
+      getState: () => ({ center: [200, 200], resolution: 1, rotation: 0 }),
+    }),
+  };
+
+  const queue = planner.buildViewportQueue(
+    map as any,
+    null,
+    [{ layer: bgLayer, priority: 1 }] as any,
+    { [PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT]: 2 } as any,
+    new PrefetchStats(),
+  );
+
+  assert.equal(queue.length, 16);
+  const centreTiles = queue.slice(0, 4).map((t) => `${t.tileCoord[1]},${t.tileCoord[2]}`);
+  assert.deepEqual(
+    centreTiles.sort(),
+    ['1,1', '1,2', '2,1', '2,2'],
+    'fill from the centre',
+  );
+  for (let i = 1; i < queue.length; i++) {
+    assert.ok(queue[i].distance >= queue[i - 1].distance, 'distance order broken');
+  }
+})();
+
+(() => {
+  const planner = new PrefetchPlanner(2);
+  const stats = new PrefetchStats();
+  const layer = createLoadingLayer('primary');
+  const target = { center: [100, 100] as [number, number], zoom: 5 };
+
+  const queue = planner.buildNextNavQueue(
+    createMap() as any,
+    [],
+    layer as any,
+    [target],
+    { [PrefetchCategory.NEXT_NAV_PRIMARY]: 2 } as any,
+    stats,
+  );
+  assert.ok(queue.length > 1, 'viewport and buffer tiles are queued');
+  assert.ok(
+    queue.every((t) => t.target === target),
+    'tasks keep their target',
+  );
+
+  let progress = stats.getJobProgress(target);
+  assert.equal(progress.total, 1, 'only the target viewport counts');
+  assert.equal(progress.queued, 1);
+  assert.equal(progress.fraction, 0);
+
+  // Progress follows the tile's changes, without holding on to the tile.
+  const tile = layer.tiles.get('5/0/0')!;
+  tile.load();
+  assert.equal(stats.getJobProgress(target).loading, 1);
+  tile.finish(TileState.LOADED);
+  progress = stats.getJobProgress(target);
+  assert.equal(progress.loaded, 1);
+  assert.equal(progress.fraction, 1);
+  assert.deepEqual(
+    progress.layers.map((l) => [l.layerName, l.loaded]),
+    [['primary', 1]],
+  );
+  assert.equal(stats.getJobProgress(target, []).total, 0, 'layer filter');
+})();
+
+(() => {
+  const planner = new PrefetchPlanner(1);
+  const stats = new PrefetchStats();
+  const layer = createLayer('primary');
+  const map = {
+    ...createMap(),
+    getView: () => ({
+      ...createView(),
+      getConstrainedResolution: (resolution: number) => resolution,
+      getZoomForResolution: (resolution: number) => 5 - Math.log2(resolution),
+    }),
+  };
+  const target = { extent: [0, 0, 512, 512] as [number, number, number, number] };
+
+  const queue = planner.buildNextNavQueue(
+    map as any,
+    [],
+    layer as any,
+    [target],
+    { [PrefetchCategory.NEXT_NAV_PRIMARY]: 2 } as any,
+    stats,
+  );
+  assert.ok(
+    queue.every((t) => t.tileCoord[0] === 4),
+    'fitted extent sets the zoom',
+  );
+  assert.equal(stats.getJobProgress(target).total, 4, 'fitted extent is covered');
+})();
+
+(() => {
+  // Extent targets land where View#fit puts a rotated, padded view.
+  const extent: [number, number, number, number] = [1000, -2000, 9000, 3000];
+  const padding: [number, number, number, number] = [10, 20, 30, 40];
+  const size: [number, number] = [300, 200];
+  for (const rotation of [0, 0.5, -2]) {
+    const view = new View({ center: [0, 0], zoom: 3, rotation });
+    view.fit(extent, { size, padding });
+    const resolved = resolveTargetView(
+      new View({ center: [0, 0], zoom: 3 }),
+      { extent, rotation, padding, size },
+      [256, 256],
+    )!;
+    assert.equal(resolved.resolution, view.getResolution());
+    const center = view.getCenter()!;
+    assert.ok(
+      Math.abs(resolved.center[0] - center[0]) < 1e-6 &&
+        Math.abs(resolved.center[1] - center[1]) < 1e-6,
+      `rotation ${rotation}: ${resolved.center} != ${center}`,
+    );
+  }
+})();
+
+(() => {
+  const planner = new PrefetchPlanner(1);
+  const grid = {
+    ...createTileGrid(),
+    getTileRangeForExtentAndZ: (extent: number[]) =>
+      createTileRange(
+        Math.floor(extent[0] / 100),
+        Math.floor((extent[2] - 1) / 100),
+        Math.floor(extent[1] / 100),
+        Math.floor((extent[3] - 1) / 100),
+      ),
+  };
+  const layer = createLayer('primary', grid);
+  const map = {
+    ...createMap(),
+    getSize: () => [100, 100] as [number, number],
+    getView: () => ({
+      ...createView(),
+      getZoomForResolution: () => 5,
+    }),
+  };
+
+  const queue = planner.buildPathQueue(
+    map as any,
+    [],
+    layer as any,
+    [
+      { center: [50, 50], resolution: 1 },
+      { center: [550, 50], resolution: 1 },
+    ],
+    { samples: 6, easing: (t: number) => t },
+    { [PrefetchCategory.NEXT_NAV_PRIMARY]: 2 } as any,
+    new PrefetchStats(),
+  );
+
+  const columns = queue.map((t) => t.tileCoord[1]);
+  assert.deepEqual(columns, [0, 1, 2, 3, 4, 5], 'path tiles in travel order');
+  assert.ok(
+    queue.every((t) => t.category === PrefetchCategory.NEXT_NAV_PRIMARY && !t.target),
+  );
+})();
+
+(() => {
+  const planner = new PrefetchPlanner(1);
+  const grid = {
+    ...createTileGrid(),
+    getTileRangeForExtentAndZ: (extent: number[]) =>
+      createTileRange(
+        Math.floor(extent[0] / 100),
+        Math.floor((extent[2] - 1) / 100),
+        Math.floor(extent[1] / 100),
+        Math.floor((extent[3] - 1) / 100),
+      ),
+  };
+  const layer = createLayer('primary', grid);
+  const map = {
+    ...createMap(),
+    getView: () => ({ ...createView(), getResolution: () => 1 }),
+  };
+
+  const queue = planner.buildRouteQueue(
+    map as any,
+    [
+      [50, 50],
+      [950, 50],
+    ],
+    { width: 20, position: [450, 50], minZoom: 5 },
+    [layer as any],
+    { [PrefetchCategory.ROUTE]: 6 } as any,
+    new PrefetchStats(),
+  );
+
+  assert.ok(queue.every((t) => t.category === PrefetchCategory.ROUTE));
+  assert.ok(
+    queue.every((t) => t.tileCoord[0] === 5 && t.tileCoord[2] === 0),
+    'only tiles along the corridor',
+  );
+  assert.deepEqual(
+    queue.map((t) => t.tileCoord[1]),
+    [4, 5, 6, 7, 8, 9],
+    'ahead of the position, in route order',
+  );
+})();
+
+(() => {
+  const planner = new PrefetchPlanner(1);
+  const stats = new PrefetchStats();
+  const grid = {
+    ...createTileGrid(),
+    getTileRangeForExtentAndZ: (extent: number[]) =>
+      createTileRange(
+        Math.floor(extent[0] / 100),
+        Math.floor((extent[2] - 1) / 100),
+        Math.floor(extent[1] / 100),
+        Math.floor((extent[3] - 1) / 100),
+      ),
+  };
+  const layer = createLayer('primary', grid);
+  // Right triangle over a 4x4 tile bounding box.
+  const triangle = new Polygon([
+    [
+      [0, 0],
+      [400, 0],
+      [0, 400],
+      [0, 0],
+    ],
+  ]);
+  const job = {};
+
+  const queue = planner.buildAreaQueue(
+    createMap() as any,
+    triangle,
+    { minZoom: 3, maxZoom: 4 },
+    [layer as any],
+    { [PrefetchCategory.AREA]: 7 } as any,
+    stats,
+    job,
+  );
+
+  assert.ok(queue.every((t) => t.category === PrefetchCategory.AREA));
+  const atZ3 = queue.filter((t) => t.tileCoord[0] === 3);
+  assert.ok(atZ3.length < 16, 'tiles outside the polygon are skipped');
+  assert.ok(
+    atZ3.every((t) => t.tileCoord[1] + t.tileCoord[2] <= 4),
+    'only tiles touching the triangle',
+  );
+  assert.ok(queue[0].tileCoord[0] === 3, 'coarser zoom first');
+  assert.equal(stats.getJobProgress(job).total, queue.length);
+})();
+
+(() => {
+  const activeLayer = createLayer('active');
+  const hotspots = {
+    name: 'hotspots',
+    plan: () => [
+      // Also in the spatial buffer, at a lower priority number: this one wins.
+      { layer: activeLayer, tileCoord: [5, 1, 1], priority: 0.5, category: 'spatial' },
+      { layer: activeLayer, tileCoord: [5, 1, 0], priority: 9, category: 'spatial' },
+      { layer: activeLayer, tileCoord: [7, 3, 3], priority: 3, category: 'spatial' },
+    ],
+  };
+  const planner = new PrefetchPlanner(2, { strategies: [hotspots as any] });
+  assert.deepEqual(
+    planner.getStrategies().map((s) => s.name),
+    ['spatial', 'background', 'zoomPyramid', 'nextNav', 'hotspots'],
+  );
+  const queue = planner.buildViewportQueue(
+    createMap() as any,
+    activeLayer as any,
+    [],
+    { [PrefetchCategory.SPATIAL_ACTIVE]: 1 } as any,
+    new PrefetchStats(),
+  );
+  assert.deepEqual(
+    queue.map((t) => [t.tileCoord.join('/'), t.priority]),
+    [
+      ['5/1/1', 0.5],
+      ['5/0/1', 1],
+      ['5/1/0', 1],
+      ['7/3/3', 3],
+    ],
+    'merged by tile key, keeping the most urgent',
+  );
+
+  assert.equal(planner.removeStrategy('hotspots'), true);
+  assert.equal(planner.removeStrategy('hotspots'), false);
+  planner.addStrategy({ name: 'spatial', plan: () => [] });
+  assert.equal(
+    planner.buildViewportQueue(
+      createMap() as any,
+      activeLayer as any,
+      [],
+      { [PrefetchCategory.SPATIAL_ACTIVE]: 1 } as any,
+      new PrefetchStats(),
+    ).length,
+    0,
+    'built-in strategies can be replaced',
+  );
+})();
+
+(() => {
+  // Backoff doubles per attempt; given-up tiles stay blocked until forgotten.
+  const originalNow = Date.now;
+  let now = 0;
+  Date.now = () => now;
+  const policy = new RetryPolicy(
+    { maxAttempts: 3, baseDelay: 100, jitter: 0, categories: ['spatial'], maxTiles: 2 },
+    () => {},
+  );
+  try {
+    assert.deepEqual(policy.recordFailure('a', 'spatial'), { attempt: 1, gaveUp: false });
+    assert.ok(policy.isBlocked('a'));
+    now = 100;
+    assert.ok(!policy.isBlocked('a'), 'cooled down after the base delay');
+    assert.deepEqual(policy.recordFailure('a', 'spatial'), { attempt: 2, gaveUp: false });
+    now = 299;
+    assert.ok(policy.isBlocked('a'), 'the delay doubles');
+    now = 300;
+    assert.ok(!policy.isBlocked('a'));
+    assert.deepEqual(policy.recordFailure('a', 'spatial'), { attempt: 3, gaveUp: true });
+    now = 1e9;
+    assert.ok(policy.isBlocked('a'), 'given up for good');
+    assert.deepEqual(policy.recordFailure('b', 'bgViewport'), {
+      attempt: 1,
+      gaveUp: true,
+    });
+
+    policy.recordSuccess('b');
+    assert.ok(!policy.isBlocked('b'), 'a loaded tile is forgotten');
+
+    // Beyond maxTiles the least recently failed tile is forgotten.
+    policy.recordFailure('c', 'bgViewport');
+    policy.recordFailure('d', 'bgViewport');
+    assert.ok(!policy.isBlocked('a'));
+    assert.ok(policy.isBlocked('c') && policy.isBlocked('d'));
+
+    policy.clear();
+    assert.ok(!policy.isBlocked('c') && !policy.isBlocked('d'));
+  } finally {
+    policy.dispose();
+    Date.now = originalNow;
+  }
+})();
+
+(() => {
+  // A circuit opens after the threshold, lets one probe through once cooled
+  // down, and closes again on its success.
+  const originalNow = Date.now;
+  let now = 0;
+  Date.now = () => now;
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 100 }, () => {});
+  try {
+    const layer = {
+      getSource: () => ({ getUrls: () => ['https://tiles.example.com/{z}/{x}/{y}.png'] }),
+    } as any;
+    const key = breaker.keyFor(layer);
+    assert.equal(key, 'tiles.example.com', 'keyed by host');
+
+    breaker.recordFailure(key);
+    assert.ok(breaker.allowsRequest(key), 'below the threshold');
+    breaker.recordFailure(key);
+    assert.ok(!breaker.allowsRequest(key));
+    assert.deepEqual(breaker.getSnapshot()[key], {
+      state: CircuitState.OPEN,
+      consecutiveFailures: 2,
+      openUntil: 100,
+    });
+
+    now = 100;
+    assert.ok(breaker.allowsRequest(key), 'cooled down');
+    breaker.recordDispatch(key);
+    assert.equal(breaker.getSnapshot()[key].state, CircuitState.HALF_OPEN);
+    assert.ok(!breaker.allowsRequest(key), 'a single probe at a time');
+    breaker.recordFailure(key);
+    assert.equal(breaker.getSnapshot()[key].state, CircuitState.OPEN, 'probe failed');
+
+    now = 200;
+    breaker.recordDispatch(key);
+    breaker.recordAbandoned(key);
+    assert.ok(breaker.allowsRequest(key), 'an abandoned probe frees the slot');
+    breaker.recordDispatch(key);
+    breaker.recordSuccess(key);
+    assert.deepEqual(breaker.getSnapshot(), {}, 'closed again');
+
+    const perLayer = new CircuitBreaker({ scope: 'layer' }, () => {});
+    assert.ok(perLayer.keyFor(layer).startsWith('layer:'));
+  } finally {
+    breaker.dispose();
+    Date.now = originalNow;
+  }
+
+  // The manager reports its circuits in the stats.
+  const manager = new PrefetchManager({
+    map: createManagerMap(),
+    circuitBreaker: { failureThreshold: 1 },
+  });
+  (manager as any).circuitBreaker_.recordFailure('tiles.example.com');
+  assert.equal(manager.getStats().circuits['tiles.example.com'].state, CircuitState.OPEN);
+  manager.dispose();
+})();
+
+(() => {
+  // Per-layer and per-source limits; a layer keeps its limit while active.
+  const map = createManagerMap();
+  const manager = new PrefetchManager({ map });
+  const loader = (manager as any).loader_ as TileLoader;
+  const active = createLoadingLayer('active') as any;
+  const slow = createLoadingLayer('slow') as any;
+  const fast = createLoadingLayer('fast') as any;
+  const loadingTiles = (layer: any) =>
+    [...layer.tiles.values()].filter((t: any) => t.state === TileState.LOADING);
+
+  manager.addBackgroundLayer(slow, 0, 1);
+  manager.setLayers([active, slow, fast]);
+  manager.setActiveLayerIndex(1);
+  manager.setActiveLayerIndex(0);
+  assert.equal(manager.getLayerMaxConcurrent(slow), 1, 'kept across layer switches');
+
+  manager.setSourceMaxConcurrent(fast.getSource(), 2);
+  assert.equal(loader.getLayerCount(slow), 1);
+  assert.equal(loader.getSourceCount(fast.getSource()), 2);
+  assert.ok(loader.getLayerCount(active) > 2, 'other layers take the free slots');
+
+  // A settled load frees the slot for the next task of the same layer.
+  loadingTiles(slow)[0].finish(TileState.LOADED);
+  assert.equal(loader.getLayerCount(slow), 1);
+  assert.equal(loadingTiles(slow).length, 1);
+  assert.equal(
+    [...slow.tiles.values()].filter((t: any) => t.state === TileState.LOADED).length,
+    1,
+  );
+
+  // Abandoned loads are no longer counted.
+  map.dispatchEvent(MapEventType.MOVESTART);
+  assert.equal(loader.getLayerCount(slow), 0);
+  assert.equal(loader.getSourceCount(fast.getSource()), 0);
+  manager.dispose();
+})();
+
+(() => {
+  // The budget holds back all but the protected categories, and recovers
+  // with a single timer at the end of the minute window.
+  const realNow = Date.now;
+  const realSetTimeout = globalThis.setTimeout;
+  const timers: { callback: () => void; delay: number }[] = [];
+  let now = 0;
+  Date.now = () => now;
+  globalThis.setTimeout = ((callback: () => void, delay: number) =>
+    timers.push({ callback, delay })) as any;
+  try {
+    let exhausted = 0;
+    let recovered = 0;
+    const budget = new PrefetchBudget(
+      { maxTilesPerMinute: 2, maxTilesPerTarget: 1, estimatedTileBytes: 10 },
+      () => exhausted++,
+      () => recovered++,
+    );
+    const tile = {} as any;
+    const target = { center: [0, 0] as [number, number], zoom: 5 };
+    const spatial = createTask('a', 1, PrefetchCategory.SPATIAL_ACTIVE) as any;
+    const background = createTask(
+      'b',
+      2,
+      PrefetchCategory.BACKGROUND_LAYERS_VIEWPORT,
+    ) as any;
+    const targeted = {
+      ...createTask('c', 4, PrefetchCategory.NEXT_NAV_PRIMARY),
+      target,
+    } as any;
+
+    budget.recordUsage(targeted, tile);
+    assert.equal(budget.allows(targeted), false, 'target budget used up');
+    assert.equal(budget.allows(background), true);
+    assert.equal(timers.length, 0);
+
+    now = 10_000;
+    budget.recordUsage(background, tile);
+    assert.equal(exhausted, 1);
+    assert.equal(budget.allows(background), false);
+    assert.equal(budget.allows(spatial), true, 'protected categories keep loading');
+    assert.equal(timers.length, 1);
+    assert.equal(timers[0].delay, 50_000, 'when the first load leaves the window');
+
+    now = 60_000;
+    timers[0].callback();
+    assert.equal(recovered, 1);
+    assert.equal(budget.allows(background), true);
+    assert.equal(budget.getSnapshot().remainingTilesThisMinute, 1);
+    assert.equal(timers.length, 1);
+
+    budget.recordUsage(background, tile);
+    assert.equal(exhausted, 2);
+    assert.equal(timers[1].delay, 10_000);
+    budget.reset();
+    assert.equal(budget.allows(targeted), true, 'reset forgets target usage');
+    budget.dispose();
+  } finally {
+    Date.now = realNow;
+    globalThis.setTimeout = realSetTimeout;
+  }
+})();
+
+(() => {
+  // The manager reports loads, pauses, budget and idle state as events.
+  const map = createManagerMap();
+  const manager = new PrefetchManager({
+    map,
+    maxConcurrentPrefetches: 2,
+    budget: { maxTiles: 2 },
+  });
+  const active = createLoadingLayer('active') as any;
+  const background = createLoadingLayer('background') as any;
+  const events: string[] = [];
+  for (const type of [
+    PrefetchEventType.TILELOADSTART,
+    PrefetchEventType.TILELOADEND,
+    PrefetchEventType.TILEERROR,
+    PrefetchEventType.PAUSED,
+    PrefetchEventType.RESUMED,
+    PrefetchEventType.IDLE,
+  ]) {
+    manager.on(type as any, () => events.push(type));
+  }
+  const snapshots: number[] = [];
+  const statsKey = manager.onStats((stats) => snapshots.push(stats.loading));
+  const exhausted: boolean[] = [];
+  manager.onBudgetExhausted((budget) => exhausted.push(budget.exhausted));
+  let idle = 0;
+  manager.onIdle(() => idle++);
+  const cancelled = manager.onIdle(() => assert.fail('cancelled onIdle fired'), 1);
+  unByKey(cancelled);
+
+  manager.addBackgroundLayer(background, 0, 1);
+  manager.setLayers([active, background]);
+  (manager as any).fillSlots_();
+  const started = events.filter((type) => type === 'tileloadstart').length;
+  assert.ok(started > 0);
+  assert.ok(snapshots.length > 0 && snapshots[snapshots.length - 1] === started);
+
+  const loading = (layer: any) =>
+    [...layer.tiles.values()].filter((tile: any) => tile.state === TileState.LOADING);
+  const settle = (layer: any) => {
+    while (loading(layer).length > 0) {
+      loading(layer)[0].finish(TileState.LOADED);
+    }
+  };
+  assert.equal(loading(active).length, 2);
+  loading(active)[0].finish(TileState.ERROR);
+  assert.ok(events.includes(PrefetchEventType.TILEERROR));
+  loading(active)[0].finish(TileState.LOADED);
+  assert.deepEqual(exhausted, []);
+  loading(active)[0].finish(TileState.LOADED);
+  assert.deepEqual(exhausted, [true], 'fired once, when the budget ran out');
+  settle(active);
+  settle(background);
+  assert.equal((manager as any).loader_.activeCount, 0);
+  assert.ok(
+    (manager as any).queue_.length > 0,
+    'background tiles are held back by the budget',
+  );
+  assert.equal(idle, 0);
+
+  manager.setEnabled(false);
+  manager.setEnabled(true);
+  assert.deepEqual(
+    events.filter((type) => type === 'paused' || type === 'resumed'),
+    ['paused', 'resumed'],
+  );
+
+  manager.setLayers([active]);
+  (manager as any).fillSlots_();
+  settle(active);
+  (manager as any).fillSlots_();
+  assert.equal(manager.getStats().queued, 0);
+  assert.equal(idle, 1);
+  assert.equal(events.filter((type) => type === 'idle').length, 1);
+
+  const count = snapshots.length;
+  unByKey(statsKey);
+  (manager as any).fillSlots_();
+  assert.equal(snapshots.length, count);
+  manager.dispose();
+})();
+
+(() => {
+  // Route position updates replan the corridor at most once per interval, and
+  // a route set during a gesture is planned once the view is idle.
+  const realNow = Date.now;
+  const realSetTimeout = globalThis.setTimeout;
+  const timers: { callback: () => void; delay: number }[] = [];
+  let now = 10_000;
+  Date.now = () => now;
+  globalThis.setTimeout = ((callback: () => void, delay: number) =>
+    timers.push({ callback, delay })) as any;
+  try {
+    const map = createPlanningMap();
+    const manager = new PrefetchManager({ map });
+    const planner = (manager as any).planner_;
+    const positions: unknown[] = [];
+    const buildRouteQueue = planner.buildRouteQueue.bind(planner);
+    planner.buildRouteQueue = (...args: any[]) => {
+      positions.push(args[2].position);
+      return buildRouteQueue(...args);
+    };
+    const routeTasks = () =>
+      (manager as any).queue_
+        .getTasks()
+        .filter((t: any) => t.category === PrefetchCategory.ROUTE);
+    manager.setLayers([createLoadingLayer('active') as any]);
+    const route = [
+      [0, 50],
+      [200, 50],
+    ];
+
+    manager.setRoute(route, { replanInterval: 1000 });
+    assert.deepEqual(positions, [undefined]);
+    assert.ok(routeTasks().length > 0);
+
+    now += 100;
+    const scheduled = timers.length;
+    manager.setRoutePosition([50, 50]);
+    manager.setRoutePosition([60, 50]);
+    assert.equal(positions.length, 1, 'throttled');
+    assert.equal(timers.length, scheduled + 1);
+    assert.equal(timers[scheduled].delay, 900);
+    now += 900;
+    timers[scheduled].callback();
+    assert.deepEqual(positions.slice(1), [[60, 50]], 'with the latest position');
+
+    now += 5000;
+    manager.setRoutePosition([70, 50]);
+    assert.deepEqual(positions.slice(2), [[70, 50]], 'at once after the interval');
+
+    map.dispatchEvent(MapEventType.MOVESTART);
+    manager.setRoute(route.slice().reverse());
+    assert.equal(routeTasks().length, 0, 'the old route is not dispatched');
+    assert.equal(positions.length, 3);
+    const idle = timers.length;
+    map.dispatchEvent(MapEventType.MOVEEND);
+    timers[idle].callback();
+    assert.equal(positions.length, 4, 'planned once idle');
+    assert.ok(routeTasks().length > 0);
+    manager.dispose();
+  } finally {
+    Date.now = realNow;
+    globalThis.setTimeout = realSetTimeout;
+  }
+})();
+
+(() => {
+  // Area jobs: cancelling drops only the job's own tasks, areas started during
+  // a gesture are planned once idle, and loaded jobs are retired.
+  const realSetTimeout = globalThis.setTimeout;
+  const timers: (() => void)[] = [];
+  globalThis.setTimeout = ((callback: () => void) => timers.push(callback)) as any;
+  try {
+    const map = createPlanningMap();
+    const manager = new PrefetchManager({ map });
+    const layer = createLoadingLayer('active') as any;
+    manager.setLayers([layer]);
+    const square = new Polygon([
+      [
+        [0, 0],
+        [150, 0],
+        [150, 150],
+        [0, 150],
+        [0, 0],
+      ],
+    ]);
+    const jobTasks = (id: number) =>
+      (manager as any).queue_.getTasks().filter((t: any) => t.areaJob === id);
+
+    const first = manager.prefetchArea(square, { minZoom: 6 });
+    const second = manager.prefetchArea(square, { minZoom: 7 });
+    assert.ok(jobTasks(first).length > 0);
+    assert.ok(jobTasks(second).length > 0);
+    manager.cancelArea(first);
+    assert.equal(jobTasks(first).length, 0);
+    assert.ok(jobTasks(second).length > 0, 'other jobs keep their tasks');
+    assert.equal(manager.getAreaProgress(first), null);
+
+    map.dispatchEvent(MapEventType.MOVESTART);
+    const third = manager.prefetchArea(square, { minZoom: 8 });
+    assert.equal(jobTasks(third).length, 0);
+    map.dispatchEvent(MapEventType.MOVEEND);
+    timers[timers.length - 1]();
+    assert.ok(jobTasks(third).length > 0, 'planned once idle');
+
+    manager.cancelArea(third);
+    for (let round = 0; round < 10 && manager.getStats().queued > 0; round++) {
+      (manager as any).fillSlots_();
+      for (const tile of layer.tiles.values()) {
+        if (tile.state === TileState.LOADING) {
+          tile.finish(TileState.LOADED);
+        }
+      }
+    }
+    const progress = manager.getAreaProgress(second)!;
+    assert.equal(progress.fraction, 1);
+    const job = (manager as any).areaJobs_.find((j: any) => j.id === second);
+    assert.equal(job.completed, progress, 'retired');
+    assert.deepEqual(manager.getStats().areas, [{ id: second, progress }]);
+    const plans = [] as unknown[];
+    const planner = (manager as any).planner_;
+    const buildAreaQueue = planner.buildAreaQueue.bind(planner);
+    planner.buildAreaQueue = (...args: any[]) => {
+      plans.push(args[6]);
+      return buildAreaQueue(...args);
+    };
+    manager.setNextTargets([]);
+    assert.deepEqual(plans, [], 'retired jobs are not planned');
+    manager.cancelArea(second);
+    assert.deepEqual(manager.getStats().areas, []);
+    manager.dispose();
+  } finally {
+    globalThis.setTimeout = realSetTimeout;
+  }
+})();
+
+/** Installs a fake `navigator.connection` until the returned restore is called. */
+const stubConnection = (connection: Record<string, unknown>) => {
+  const listeners = new Set<() => void>();
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+  Object.defineProperty(globalThis, 'navigator', {
+    configurable: true,
+    value: {
+      connection: Object.assign(connection, {
+        addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+        removeEventListener: (_: string, listener: () => void) =>
+          listeners.delete(listener),
+      }),
+    },
+  });
+  return {
+    change: () => listeners.forEach((listener) => listener()),
+    listenerCount: () => listeners.size,
+    restore: () => {
+      if (descriptor) {
+        Object.defineProperty(globalThis, 'navigator', descriptor);
+      } else {
+        delete (globalThis as any).navigator;
+      }
+    },
+  };
+};
+
+(() => {
+  // Slow or failed loads halve the limit once per window; fast loads grow it
+  // back by about one per window, within the bounds.
+  const adaptive = new AdaptiveConcurrency(
+    { min: 2, targetLatency: 100, decreaseFactor: 0.5 },
+    8,
+    () => {},
+  );
+  assert.equal(adaptive.getLimit(), 8, 'max defaults to maxConcurrentPrefetches');
+  for (let i = 0; i < 7; i++) {
+    adaptive.recordResult(500, false);
+  }
+  assert.equal(adaptive.getLimit(), 8, 'one burst decreases once');
+  adaptive.recordResult(10, true);
+  assert.equal(adaptive.getLimit(), 4);
+  for (let i = 0; i < 12; i++) {
+    adaptive.recordResult(500, false);
+  }
+  assert.equal(adaptive.getLimit(), 2, 'never below min');
+
+  adaptive.recordResult(10, false);
+  adaptive.recordResult(10, false);
+  assert.equal(adaptive.getLimit(), 3);
+  for (let i = 0; i < 50; i++) {
+    adaptive.recordResult(10, false);
+  }
+  assert.equal(adaptive.getLimit(), 8, 'never above max');
+  adaptive.setMax(5);
+  assert.equal(adaptive.getLimit(), 5);
+  adaptive.dispose();
+})();
+
+(() => {
+  // Data saver and slow connections hold back all but the constrained
+  // categories, and connection changes are forwarded.
+  const connection = stubConnection({ effectiveType: '4g', saveData: false });
+  try {
+    let changes = 0;
+    const adaptive = new AdaptiveConcurrency(
+      {
+        constrainedCategories: [
+          PrefetchCategory.SPATIAL_ACTIVE,
+          PrefetchCategory.NEXT_NAV_PRIMARY,
+        ],
+      },
+      4,
+      () => changes++,
+    );
+    assert.equal(adaptive.isConstrained(), false);
+    assert.equal(adaptive.allowsCategory(PrefetchCategory.NEXT_NAV_BACKGROUND), true);
+
+    const info = (globalThis as any).navigator.connection;
+    info.effectiveType = '2g';
+    connection.change();
+    assert.equal(changes, 1);
+    assert.equal(adaptive.isConstrained(), true);
+    assert.equal(adaptive.allowsCategory(PrefetchCategory.NEXT_NAV_BACKGROUND), false);
+    assert.equal(adaptive.allowsCategory(PrefetchCategory.NEXT_NAV_PRIMARY), true);
+
+    info.effectiveType = '4g';
+    info.saveData = true;
+    assert.equal(adaptive.isConstrained(), true, 'data saver');
+
+    adaptive.dispose();
+    assert.equal(connection.listenerCount(), 0);
+  } finally {
+    connection.restore();
+  }
+})();
+
+(() => {
+  // On a slow connection the manager only loads the active layer, within the
+  // adaptive limit.
+  const connection = stubConnection({ effectiveType: 'slow-2g' });
+  try {
+    const manager = new PrefetchManager({
+      map: createManagerMap(),
+      adaptiveConcurrency: { max: 3 },
+    });
+    const loader = (manager as any).loader_ as TileLoader;
+    const active = createLoadingLayer('active') as any;
+    const background = createLoadingLayer('background') as any;
+    manager.addBackgroundLayer(background, 0, 1);
+    manager.setLayers([active, background]);
+    (manager as any).fillSlots_();
+    assert.equal(loader.getLayerCount(active), 3);
+    assert.equal(loader.getLayerCount(background), 0);
+    assert.deepEqual(manager.getStats().concurrency, {
+      limit: 3,
+      adaptive: true,
+      networkConstrained: true,
+    });
+
+    manager.setMaxConcurrent(2);
+    assert.equal(manager.getStats().concurrency.limit, 2, 'the global limit caps it');
+    manager.dispose();
+    assert.equal(connection.listenerCount(), 0);
+  } finally {
+    connection.restore();
+  }
+})();
+
+(() => {
+  // The manager does not poll while the session budget is used up.
+  const manager = new PrefetchManager({
+    map: createManagerMap(),
+    budget: { maxTiles: 0, protectedCategories: [] },
+  });
+  const scheduler = (manager as any).scheduler_;
+  manager.setLayers([createLoadingLayer('active') as any]);
+  scheduler.dispose();
+  (manager as any).fillSlots_();
+  assert.ok((manager as any).queue_.length > 0);
+  assert.equal((manager as any).loader_.activeCount, 0);
+  assert.equal(scheduler.tickTimer_, null);
+  manager.dispose();
+})();
+
+(() => {
+  const categories = new CategoryRegistry();
+  categories.register('bookmarks', { label: 'Bookmarks', priority: 2.5 });
+  categories.register('search', {
+    label: 'Search results',
+    priority: 3.5,
+    pausesDuringInteraction: false,
+  });
+  assert.throws(() =>
+    categories.register(PrefetchCategory.AREA, { label: 'x', priority: 1 }),
+  );
+  assert.equal(categories.getPriority({ search: 1 } as any, 'search'), 1);
+  assert.equal(categories.getPriority({} as any, 'search'), 3.5);
+
+  const planner = new PrefetchPlanner(1);
+  const stats = new PrefetchStats(categories);
+  const area = new Polygon([
+    [
+      [0, 0],
+      [100, 0],
+      [100, 100],
+      [0, 0],
+    ],
+  ]);
+  const layer = createLayer('primary');
+  const queue = planner.buildAreaQueue(
+    createMap() as any,
+    area,
+    { minZoom: 3, category: 'search' },
+    [layer as any],
+    { [PrefetchCategory.AREA]: 7, bookmarks: 1, search: 3.5 } as any,
+    stats,
+    {},
+  );
+  assert.ok(queue.length > 0);
+  assert.ok(queue.every((t) => t.category === 'search'));
+  assert.ok(Math.floor(queue[0].priority) === 3);
+
+  stats.recordLoadingStart('search');
+  stats.recordLoaded('bookmarks');
+  stats.recordLoaded('unknown');
+  const snapshot = stats.getSnapshot(0, 1, false, [], {} as any);
+  assert.equal(snapshot.custom.search.queued, queue.length - 1);
+  assert.equal(snapshot.custom.search.loading, 1);
+  assert.equal(snapshot.custom.bookmarks.loaded, 1);
+  assert.equal(snapshot.custom.bookmarks.label, 'Bookmarks');
+  assert.equal(snapshot.custom.unknown, undefined);
+  assert.equal(categories.getName('search'), 'Search results');
+  assert.equal(categories.pausesDuringInteraction('bookmarks'), true);
+  assert.equal(categories.pausesDuringInteraction('search'), false);
+
+  categories.unregister('bookmarks');
+  categories.unregister('search');
+  assert.equal(categories.getName('search'), 'Category search');
+  assert.equal(categories.has('search'), false);
+})();
+
+(() => {
+  // Categories registered with one manager are unknown to another.
+  const manager = new PrefetchManager({ map: createManagerMap() });
+  const other = new PrefetchManager({ map: createManagerMap() });
+  manager.registerCategory('bookmarks', { label: 'Bookmarks', priority: 2.5 });
+  assert.equal(manager.getCategoryPriorities().bookmarks, 2.5);
+  assert.equal(other.getCategoryPriorities().bookmarks, undefined);
+  assert.ok(Object.keys(manager.getStats().custom).includes('bookmarks'));
+  assert.deepEqual(other.getStats().custom, {});
+  assert.throws(() =>
+    other.prefetchArea(
+      new Polygon([
+        [
+          [0, 0],
+          [1, 0],
+          [0, 0],
+        ],
+      ]),
+      {
+        category: 'bookmarks',
+      },
+    ),
+  );
+
+  manager.setCategoryPriorities({ bookmarks: 1 });
+  assert.equal(manager.getCategoryPriorities().bookmarks, 1);
+  manager.unregisterCategory('bookmarks');
+  assert.equal(manager.getCategoryPriorities().bookmarks, undefined);
+  manager.dispose();
+  other.dispose();
+})();
+
+(() => {
+  // Custom category counts are reset with the phase that planned them, so
+  // panning does not add up viewport-planned counts.
+  const realSetTimeout = globalThis.setTimeout;
+  const timers: (() => void)[] = [];
+  globalThis.setTimeout = ((callback: () => void) => timers.push(callback)) as any;
+  try {
+    const map = createPlanningMap();
+    const manager = new PrefetchManager({ map });
+    const pins = createLoadingLayer('pins') as any;
+    manager.registerCategory('pins', { label: 'Pins', priority: 2.5 });
+    manager.addPlannerStrategy({
+      name: 'pins',
+      plan: () =>
+        [0, 1, 2].map((x) => ({
+          layer: pins,
+          tileCoord: [5, x, 0] as [number, number, number],
+          priority: 2.5,
+          category: 'pins',
+        })),
+    });
+    manager.setLayers([createLoadingLayer('active') as any]);
+    const pinCount = () => {
+      const { queued, loading } = manager.getStats().custom.pins;
+      return queued + loading;
+    };
+    assert.equal(pinCount(), 3);
+
+    for (let pan = 1; pan <= 2; pan++) {
+      map.dispatchEvent(MapEventType.MOVESTART);
+      map.dispatchEvent(MapEventType.MOVEEND);
+      // The idle timeout, then the tick replanning the viewport.
+      for (const timer of timers.splice(0)) timer();
+      for (const timer of timers.splice(0)) timer();
+      assert.equal(pinCount(), 3, `after pan ${pan}`);
+    }
+    manager.setNextTargets([{ center: [100, 100], zoom: 5 }]);
+    assert.equal(pinCount(), 3, 'kept by next-nav replanning');
+    manager.dispose();
+  } finally {
+    globalThis.setTimeout = realSetTimeout;
+  }
+})();
+
+(() => {
+  // Abandoning a load cancels it and evicts the tile for a clean reload,
+  // unless the map shows the tile.
+  const createImageTile = (x: number) => {
+    const tile = {
+      state: TileState.IDLE as number,
+      released: false,
+      image: { src: `https://tiles/5/${x}/0` },
+      getState: () => tile.state,
+      getTileCoord: () => [5, x, 0],
+      getImage: () => tile.image,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      release: () => void (tile.released = true),
+      load: () => void (tile.state = TileState.LOADING),
+    };
+    return tile;
+  };
+  const tiles = [createImageTile(0), createImageTile(1)];
+  const cache = new Map<string, unknown>(tiles.map((t, x) => [`5/${x}/0`, t]));
+  const source: { getTile: unknown; getTileCacheForProjection?: unknown } = {
+    getTile: (_z: number, x: number) => tiles[x],
+    getTileCacheForProjection: () => ({
+      containsKey: (key: string) => cache.has(key),
+      peek: (key: string) => cache.get(key),
+      remove: (key: string) => cache.delete(key),
+    }),
+  };
+  const layer = { get: () => undefined, getSource: () => source };
+  const stats = new PrefetchStats();
+  const ended: unknown[] = [];
+  const loader = new TileLoader({
+    onSlotFreed: () => {},
+    onStatsChanged: () => {},
+    onTileLoadEnd: (task) => ended.push(task),
+    isTileShown: (task) => task.tileCoord[1] === 1,
+  });
+  const start = (x: number) =>
+    loader.startTask(
+      {
+        id: `5/${x}/0`,
+        priority: 0,
+        distance: 0,
+        category: PrefetchCategory.NEXT_NAV_PRIMARY,
+        layer: layer as any,
+        tileCoord: [5, x, 0],
+        timestamp: 0,
+      },
+      createMap() as any,
+      stats,
+    );
+  start(0);
+  start(1);
+  const [hidden, shown] = tiles;
+  const hiddenSignal = loader.getLoad(hidden as any)!.signal;
+  const shownSignal = loader.getLoad(shown as any)!.signal;
+  assert.equal(loader.activeCount, 2);
+
+  loader.abandonAll(stats);
+  assert.ok(hiddenSignal.aborted, 'fetch-based loads are aborted');
+  assert.equal(hidden.image.src, '', 'image requests are cancelled');
+  assert.ok(!cache.has('5/0/0'), 'tile dropped from the source cache');
+  assert.ok(hidden.released);
+  assert.ok(!shownSignal.aborted, 'the map still needs the shown tile');
+  assert.equal(shown.image.src, 'https://tiles/5/1/0');
+  assert.equal(cache.get('5/1/0'), shown);
+  assert.equal(loader.getLoad(hidden as any), null);
+  assert.equal(loader.getLoad(shown as any), null, 'no longer a prefetch');
+  assert.equal(loader.activeCount, 0);
+  assert.equal(ended.length, 0, 'abandoned loads do not end');
+
+  // Sources without a tile cache (ol 10) only get the request cancelled.
+  delete source.getTileCacheForProjection;
+  const tile = createImageTile(0);
+  tiles[0] = tile;
+  start(0);
+  loader.abandonAll(stats);
+  assert.equal(tile.image.src, '');
+  assert.ok(!tile.released);
+})();
+
+(() => {
+  // The manager leaves loads of the tiles the view shows running.
+  const map = Object.assign(new Observable(), {
+    getView: () => view,
+    getSize: () => [256, 256],
+  });
+  const view = new View({ center: [0, 0], zoom: 1 });
+  const manager = new PrefetchManager({ map: map as any });
+  const layer = new TileLayer({
+    source: new XYZ({ url: 'https://tiles/{z}/{x}/{y}.png' }),
+  });
+  const isShown = (tileCoord: number[]) =>
+    (manager as any).isTileShown_({ layer, tileCoord }) as boolean;
+  assert.equal(isShown([1, 0, 0]), true);
+  assert.equal(isShown([1, 1, 1]), true);
+  assert.equal(isShown([2, 0, 0]), false, 'another zoom level');
+  view.setCenter([1.2e7, 0]);
+  assert.equal(isShown([1, 0, 0]), false, 'out of view');
+  layer.setVisible(false);
+  assert.equal(isShown([1, 1, 0]), false, 'hidden layer');
+  manager.dispose();
+})();
+
+const targetReadyTest = async () => {
+  const manager = new PrefetchManager({ map: createManagerMap() });
+  const layer = createLoadingLayer('primary') as any;
+  manager.setLayers([layer]);
+  manager.setNextNavLayer(layer);
+  manager.setNextTargets([
+    { center: [100, 100], zoom: 5 },
+    { center: [100, 100], zoom: 6 },
+  ]);
+  const ready: number[] = [];
+  manager.on(PrefetchEventType.TARGETREADY, (evt) => ready.push(evt.index));
+
+  await assert.rejects(manager.whenTargetReady({ center: [0, 0], zoom: 1 }), /not one/);
+  await assert.rejects(manager.whenTargetReady(1, { timeout: 1 }), /Timed out/);
+  const removed = manager.whenTargetReady(1);
+  const loaded = manager.whenTargetReady({ center: [100, 100], zoom: 5 });
+  manager.removeNextTarget(1);
+  await assert.rejects(removed, /removed/);
+
+  const progress = manager.getTargetProgress(0)!;
+  assert.ok(progress.total > 0);
+  assert.equal(progress.loaded, 0);
+  (manager as any).fillSlots_();
+  for (const tile of layer.tiles.values()) {
+    if (tile.state === TileState.LOADING) {
+      tile.finish(TileState.LOADED);
+    }
+  }
+  const settled = await loaded;
+  assert.equal(settled.fraction, 1);
+  assert.deepEqual(ready, [0]);
+  manager.dispose();
+};
+
+const pathInteractionTest = async () => {
+  // A path changed during a gesture is planned once the view is idle, and a
+  // cleared path is not dispatched in the meantime.
+  const map = createPlanningMap();
+  const manager = new PrefetchManager({ map, idleDelay: 0 });
+  const nav = createLoadingLayer('nav') as any;
+  manager.setLayers([createLoadingLayer('active') as any]);
+  manager.setNextNavLayer(nav);
+  const waypoints = [
+    { center: [0, 0] as [number, number], zoom: 5 },
+    { center: [100, 100] as [number, number], zoom: 5 },
+  ];
+  const pathTasks = () =>
+    (manager as any).queue_.getTasks().filter((t: any) => t.path === true);
+
+  manager.prefetchPath(waypoints);
+  assert.ok(pathTasks().length > 0);
+  assert.ok(pathTasks().every((t: any) => t.layer === nav));
+
+  map.dispatchEvent(MapEventType.MOVESTART);
+  assert.ok(pathTasks().length > 0, 'path tasks are kept during the gesture');
+  manager.clearPath();
+  assert.equal(pathTasks().length, 0);
+  manager.prefetchPath(waypoints, { samples: 2 });
+  assert.equal(pathTasks().length, 0, 'planned once the view is idle');
+
+  map.dispatchEvent(MapEventType.MOVEEND);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  const loader = (manager as any).loader_ as TileLoader;
+  assert.ok(pathTasks().length + loader.getLayerCount(nav) > 0);
+  manager.dispose();
+};
+
+(async () => {
+  await targetReadyTest();
+  await pathInteractionTest();
+})().then(
+  () => console.log('priority-order tests passed'),
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,91 @@
+import assert from 'assert/strict';
+import TimeSeries from '../src/TimeSeries.ts';
+import { PrefetchCategory } from '../src/PrefetchConstants.ts';
+import ImageTile from 'ol/ImageTile.js';
+import TileLayer from 'ol/layer/Tile.js';
+import TileImage from 'ol/source/TileImage.js';
+import XYZ from 'ol/source/XYZ.js';
+import { get as getProjection } from 'ol/proj.js';
+import type UrlTile from 'ol/source/UrlTile.js';
+import type { PrefetchTileLayer } from '../src/PrefetchTypes.ts';
+import { createPlanContext } from './fixtures.ts';
+
+const projection = getProjection('EPSG:3857')!;
+
+/** The URL of tile 2/1/1 of the layer's source. */
+const urlOf = (layer: PrefetchTileLayer) =>
+  (layer.getSource() as UrlTile).getTileUrlFunction()([2, 1, 1], 1, projection);
+
+(() => {
+  const template = new XYZ({ url: 'https://tiles/{z}/{x}/{y}.png?time=x&style=a' });
+  const layer = new TileLayer({ source: template, properties: { name: 'S2' } });
+  const series = new TimeSeries({
+    layer,
+    times: ['2024-04', '2024-05', '2024-06', '2024-07'],
+    dimension: 'TIME',
+    time: '2024-05',
+    before: 1,
+    after: 2,
+  });
+
+  assert.notEqual(layer.getSource(), template, 'the layer shows a copy per time');
+  assert.equal(urlOf(layer), 'https://tiles/2/1/1.png?TIME=2024-05&style=a');
+  assert.deepEqual(series.getWindow(), ['2024-06', '2024-04', '2024-07']);
+
+  const descriptors = series.plan(
+    createPlanContext({ zoom: 2, viewExtent: [-1e6, -1e6, 1e6, 1e6] }),
+  );
+  assert.ok(descriptors.every((d) => d.category === PrefetchCategory.TIME_SERIES));
+  const firstOfEach = [1.5, 1.5 + 0.1 / 3, 1.5 + 0.2 / 3].map((p) =>
+    descriptors.find((d) => Math.abs(d.priority - p) < 1e-9)!,
+  );
+  assert.equal(
+    urlOf(firstOfEach[0].layer),
+    'https://tiles/2/1/1.png?TIME=2024-06&style=a',
+  );
+  assert.equal(
+    urlOf(firstOfEach[2].layer),
+    'https://tiles/2/1/1.png?TIME=2024-07&style=a',
+  );
+
+  // Switching shows the prefetched copy itself.
+  const next = firstOfEach[0].layer.getSource();
+  assert.equal(series.setCurrentTime('2024-06'), true);
+  assert.equal(layer.getSource(), next);
+  assert.equal(series.setCurrentTime('2025-01'), false);
+
+  series.dispose();
+  assert.equal(layer.getSource(), template);
+})();
+
+(() => {
+  // Wide windows stay within the category's priority span; copies keep the
+  // template's cache size and tile class.
+  class CustomTile extends ImageTile {}
+  const template = new TileImage({
+    url: 'https://tiles/{z}/{x}/{y}.png',
+    cacheSize: 64,
+    tileClass: CustomTile,
+  });
+  const layer = new TileLayer({ source: template });
+  const times = Array.from({ length: 60 }, (_, i) => i);
+  const series = new TimeSeries({
+    layer,
+    times,
+    time: 30,
+    before: 30,
+    after: 29,
+  });
+  const source = layer.getSource()!;
+  assert.equal(source['tileCache'].highWaterMark, 64);
+  assert.equal(source['tileClass'], CustomTile);
+
+  const descriptors = series.plan(
+    createPlanContext({ zoom: 0, viewExtent: [-1e6, -1e6, 1e6, 1e6] }),
+  );
+  assert.equal(new Set(descriptors.map((d) => d.layer)).size, 59);
+  assert.ok(descriptors.every((d) => d.priority >= 1.5 && d.priority < 1.6));
+  series.dispose();
+})();
+
+console.log('time series tests passed');